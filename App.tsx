@@ -1,6 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { StyleSheet, Text, View, TouchableOpacity, ActivityIndicator, SafeAreaView, Alert, Platform, Animated, Easing, ScrollView } from 'react-native';
-import { Asset, useAssets } from 'expo-asset';
+import { StyleSheet, Text, View, TouchableOpacity, SafeAreaView, Alert, Platform, Animated, Easing, ScrollView } from 'react-native';
 import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system/legacy';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -9,10 +8,40 @@ import { Ionicons } from '@expo/vector-icons';
 const { StorageAccessFramework } = FileSystem;
 
 import { useKaraoke } from './src/hooks/useKaraoke';
-import { parseSRT, LyricLine } from './src/utils/srtParser';
+import { useSongLibrary } from './src/hooks/useSongLibrary';
+import { useLatencyCalibration } from './src/hooks/useLatencyCalibration';
+import { useMixSettings } from './src/hooks/useMixSettings';
+import { usePerformanceHistory } from './src/hooks/usePerformanceHistory';
+import { useVocalRemoval } from './src/hooks/useVocalRemoval';
+import { useLyricTiming } from './src/hooks/useLyricTiming';
 import { LyricsDisplay } from './src/components/LyricsDisplay';
 import { AudioMixer } from './src/components/AudioMixer';
 import { AudioPlayer } from './src/components/AudioPlayer';
+import { SongLibrary } from './src/components/SongLibrary';
+import { SongImporter } from './src/components/SongImporter';
+import { ScoreCard } from './src/components/ScoreCard';
+import { LatencyCalibration } from './src/components/LatencyCalibration';
+import { MixControls } from './src/components/MixControls';
+import { TransposeControls } from './src/components/TransposeControls';
+import { ProcessingStatus } from './src/components/ProcessingStatus';
+import { RehearsalControls } from './src/components/RehearsalControls';
+import { LoopControls } from './src/components/LoopControls';
+import { PerformanceHistory } from './src/components/PerformanceHistory';
+import { TakeComparison } from './src/components/TakeComparison';
+import { DuetControls } from './src/components/DuetControls';
+import { LyricSyncControls } from './src/components/LyricSyncControls';
+import { LyricBreakControls } from './src/components/LyricBreakControls';
+import { LyricsDiagnostics } from './src/components/LyricsDiagnostics';
+import { DuetCoverageCard } from './src/components/DuetCoverageCard';
+import { VocalRemover } from './src/components/VocalRemover';
+import { LyricTimingEditor } from './src/components/LyricTimingEditor';
+import { MixSettings } from './src/utils/mixSettings';
+import { formatTranspose } from './src/utils/transpose';
+import { getAudioFileType } from './src/utils/exportProfiles';
+import { LyricLine } from './src/utils/srtParser';
+import { formatDuration } from './src/utils/songCatalog';
+import { hasDuetParts, getPartLabels, getDuetCoverage } from './src/utils/duet';
+import { getLyricsText } from './src/utils/lyricTiming';
 
 /**
  * Visualizes the audio metering level using a segmented bar.
@@ -57,41 +86,94 @@ const VolumeVisualizer = ({ metering }: { metering: number }) => {
  * Orchestrates the Karaoke session, manages UI state, and handles user interactions.
  */
 export default function App() {
-  const [assets] = useAssets([require('./assets/lyrics.srt'), require('./assets/song.mp3')]);
+  const library = useSongLibrary();
+  const calibration = useLatencyCalibration();
+  const mixSettings = useMixSettings();
+  const history = usePerformanceHistory();
 
   const {
     startSession,
+    startRehearsal,
+    toggleRehearsalPlayback,
+    seekTo,
+    stopRehearsal,
+    isRehearsing,
+    takes,
+    compChoices,
+    comping,
+    chooseTake,
+    loop,
+    loopTakes,
+    setLoopPoint,
+    setLoopLines,
+    updateLoop,
+    clearLoop,
+    isPlaying,
+    pauseSession,
+    resumeSession,
     stopSession,
     reset,
+    selectSong,
+    clearSong,
+    selectedSong,
+    lyrics,
+    lyricsLoaded,
+    lyricsError,
+    lyricsDiagnostics,
     handleMixComplete,
+    handleProgress,
+    cancelProcessing,
+    progress,
+    handlePitchAnalysis,
     handleMixError,
+    score,
+    mixerRef,
+    mixReady,
+    isPreviewing,
+    startPreview,
+    updatePreview,
+    stopPreview,
+    renderMix,
+    transpose,
+    transposing,
+    setTranspose,
+    duet,
+    setDuet,
+    lyricSync,
+    setLyricSync,
+    lyricBreaks,
+    setLyricBreaks,
+    syncLineNow,
+    handleSessionReady,
+    handlePreviewEnded,
     isRecording,
+    isPaused,
     processing,
     mixedFileUri,
     voiceFileUri,
     error,
-    songBase64,
-    voiceBase64,
-    requestPermission,
     metering,
-    positionMillis
+    positionMillis,
+    durationMillis
   } = useKaraoke();
 
-  const [lyrics, setLyrics] = useState<LyricLine[]>([]);
-  const [lyricsLoaded, setLyricsLoaded] = useState(false);
+  const [showImporter, setShowImporter] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Line selection of the loop section: first tapped line, or null while waiting for it
+  const [selectingLines, setSelectingLines] = useState(false);
+  const [anchorLine, setAnchorLine] = useState<LyricLine | null>(null);
+
+  const vocalRemoval = useVocalRemoval(mixerRef);
+  const lyricTiming = useLyricTiming();
+
+  const isDuetSong = hasDuetParts(lyrics);
+  const partLabels = getPartLabels(duet);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const resultFadeAnim = useRef(new Animated.Value(0)).current;
   const resultSlideAnim = useRef(new Animated.Value(50)).current;
 
-  // Load lyrics when assets are ready
-  useEffect(() => {
-    if (assets) {
-      loadLyrics(assets[0]);
-    }
-    requestPermission();
-  }, [assets]);
-
   // Show error alerts
   useEffect(() => {
     if (error) {
@@ -99,9 +181,33 @@ export default function App() {
     }
   }, [error]);
 
-  // Animate result screen when mixing is complete
   useEffect(() => {
-    if (mixedFileUri) {
+    if (library.error) {
+      Alert.alert('Error', library.error);
+    }
+  }, [library.error]);
+
+  useEffect(() => {
+    if (history.error) {
+      Alert.alert('Error', history.error);
+    }
+  }, [history.error]);
+
+  useEffect(() => {
+    if (vocalRemoval.error) {
+      Alert.alert('Error', vocalRemoval.error);
+    }
+  }, [vocalRemoval.error]);
+
+  useEffect(() => {
+    if (lyricTiming.error) {
+      Alert.alert('Error', lyricTiming.error);
+    }
+  }, [lyricTiming.error]);
+
+  // Animate result screen when the performance is ready
+  useEffect(() => {
+    if (mixReady) {
       Animated.parallel([
         Animated.timing(resultFadeAnim, {
           toValue: 1,
@@ -120,11 +226,11 @@ export default function App() {
       resultFadeAnim.setValue(0);
       resultSlideAnim.setValue(50);
     }
-  }, [mixedFileUri]);
+  }, [mixReady]);
 
   // Pulse animation for the recording button
   useEffect(() => {
-    if (isRecording) {
+    if (isRecording && !isPaused) {
       Animated.loop(
         Animated.sequence([
           Animated.timing(pulseAnim, {
@@ -140,28 +246,10 @@ export default function App() {
         ])
       ).start();
     } else {
+      pulseAnim.stopAnimation();
       pulseAnim.setValue(1);
     }
-  }, [isRecording]);
-
-  /**
-   * Loads and parses the SRT lyrics file.
-   * @param lyricAsset The Expo Asset object for the lyrics file.
-   */
-  const loadLyrics = async (lyricAsset: Asset) => {
-    try {
-      if (!lyricAsset.localUri) await lyricAsset.downloadAsync();
-      const uri = lyricAsset.localUri || lyricAsset.uri;
-      const response = await fetch(uri);
-      const content = await response.text();
-      const parsed = parseSRT(content);
-      setLyrics(parsed);
-      setLyricsLoaded(true);
-    } catch (e: any) {
-      console.log('Error loading lyrics:', e);
-      Alert.alert('Warning', 'Could not load lyrics.');
-    }
-  };
+  }, [isRecording, isPaused]);
 
   /**
    * Shares the generated audio file using the native share dialog.
@@ -173,35 +261,97 @@ export default function App() {
       Alert.alert('Error', 'Sharing is not available');
       return;
     }
-    await Sharing.shareAsync(uri);
+    await Sharing.shareAsync(uri, { mimeType: getAudioFileType(uri).mimeType });
   };
 
   /**
    * Saves the file to the device storage.
    * Handles Android Storage Access Framework permissions.
    * @param uri The URI of the file to save.
-   * @param fileName The desired name for the saved file.
+   * @param baseName The desired name for the saved file, the extension is taken from the file itself.
    */
-  const saveFile = async (uri: string | null, fileName: string) => {
+  const saveFile = async (uri: string | null, baseName: string) => {
     if (!uri) return;
+    const { extension, mimeType } = getAudioFileType(uri);
+    const fileName = `${baseName}.${extension}`;
     try {
       if (Platform.OS === 'android') {
         const permissions = await StorageAccessFramework.requestDirectoryPermissionsAsync();
         if (permissions.granted) {
           const directoryUri = permissions.directoryUri;
           const fileContent = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
-          const newFileUri = await StorageAccessFramework.createFileAsync(directoryUri, fileName, 'audio/wav');
+          const newFileUri = await StorageAccessFramework.createFileAsync(directoryUri, fileName, mimeType);
           await FileSystem.writeAsStringAsync(newFileUri, fileContent, { encoding: FileSystem.EncodingType.Base64 });
           Alert.alert('Success', `${fileName} saved to your device!`);
         }
       } else {
-        await Sharing.shareAsync(uri);
+        await Sharing.shareAsync(uri, { mimeType });
       }
     } catch (e: any) {
       Alert.alert('Error', 'Download failed: ' + e.message);
     }
   };
 
+  /**
+   * Applies mix changes live to the preview.
+   * When committing, the settings are also stored as defaults.
+   */
+  const handleMixChange = (changes: Partial<MixSettings>, commit: boolean) => {
+    if (commit) mixSettings.commit(changes);
+    else mixSettings.update(changes);
+    updatePreview({ ...mixSettings.settings, ...changes });
+  };
+
+  /**
+   * Handles a tapped lyric line during a rehearsal.
+   * While selecting loop lines the first tap marks one end and the second tap the other,
+   * otherwise playback jumps to the line.
+   */
+  const handleLinePress = (line: LyricLine) => {
+    if (!selectingLines) {
+      seekTo(line.startTime);
+      return;
+    }
+    if (!anchorLine) {
+      setAnchorLine(line);
+      return;
+    }
+    setLoopLines(anchorLine, line);
+    setAnchorLine(null);
+    setSelectingLines(false);
+  };
+
+  /**
+   * Opens the performance history with the latest entries.
+   */
+  const openHistory = () => {
+    history.refresh();
+    setShowHistory(true);
+  };
+
+  /**
+   * Renders the selected song without vocals and switches to the new backing track.
+   */
+  const handleSaveInstrumental = async () => {
+    const instrumental = await vocalRemoval.save();
+    if (!instrumental) return;
+    library.refresh();
+    selectSong(instrumental);
+  };
+
+  /**
+   * Writes the tapped lyric timings as an SRT or Enhanced LRC file and shares it.
+   */
+  const handleExportLyrics = async () => {
+    const uri = await lyricTiming.exportLyrics();
+    if (!uri) return;
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Saved', `Lyrics written to ${uri}`);
+      return;
+    }
+    await Sharing.shareAsync(uri, { mimeType: uri.endsWith('.lrc') ? 'text/plain' : 'application/x-subrip' });
+  };
+
   /**
    * Resets the session to start over.
    */
@@ -209,15 +359,6 @@ export default function App() {
     reset();
   };
 
-  if (!assets) {
-    return (
-      <View style={styles.center}>
-        <ActivityIndicator size="large" color="#FFD740" />
-        <Text style={{ marginTop: 10, color: 'white' }}>Loading Assets...</Text>
-      </View>
-    );
-  }
-
   return (
     <LinearGradient
       colors={['#0f0c29', '#302b63', '#24243e']}
@@ -231,43 +372,194 @@ export default function App() {
         </View>
 
         <AudioMixer
-          songBase64={songBase64}
-          voiceBase64={voiceBase64}
+          ref={mixerRef}
+          options={{ latencyMs: calibration.latencyMs }}
+          calibration={calibration.clickUri && calibration.recordingUri ? {
+            clickUri: calibration.clickUri,
+            recordingUri: calibration.recordingUri
+          } : null}
+          onSessionReady={handleSessionReady}
+          onPreviewEnded={handlePreviewEnded}
+          onVocalPreviewEnded={vocalRemoval.handlePreviewEnded}
           onMixComplete={handleMixComplete}
+          onProgress={(progress) => {
+            handleProgress(progress);
+            vocalRemoval.handleProgress(progress);
+          }}
+          onPitchAnalysis={handlePitchAnalysis}
+          onLatencyMeasured={calibration.handleLatencyMeasured}
+          onLatencyError={calibration.handleLatencyError}
           onError={handleMixError}
         />
 
         <View style={styles.content}>
-          {processing ? (
-            <View style={styles.center}>
-              <ActivityIndicator size="large" color="#FFD740" />
-              <Text style={styles.statusText}>Mixing Audio...</Text>
-              <Text style={styles.subStatus}>High quality mix in progress...</Text>
-            </View>
+          {vocalRemoval.song && vocalRemoval.status !== 'ready' ? (
+            <ProcessingStatus
+              title={vocalRemoval.status === 'loading' ? 'Loading Song...' : 'Removing Vocals...'}
+              subtitle={vocalRemoval.song.title}
+              progress={vocalRemoval.progress}
+              onCancel={vocalRemoval.cancel}
+            />
+          ) : vocalRemoval.song ? (
+            <VocalRemover
+              song={vocalRemoval.song}
+              settings={vocalRemoval.settings}
+              preview={vocalRemoval.preview}
+              onStrengthChange={vocalRemoval.setStrength}
+              onPlay={(mode) => {
+                // Start shortly before the first sung line, where the vocals can be heard
+                const firstLine = lyrics.find(line => !line.isInstrumental);
+                vocalRemoval.playPreview(mode, Math.max(0, ((firstLine?.startTime ?? 0) - 2000) / 1000));
+              }}
+              onStop={vocalRemoval.stopPreview}
+              onSave={handleSaveInstrumental}
+              onClose={vocalRemoval.close}
+            />
+          ) : lyricTiming.song ? (
+            <LyricTimingEditor
+              song={lyricTiming.song}
+              initialText={getLyricsText(lyrics)}
+              mode={lyricTiming.mode}
+              lines={lyricTiming.lines}
+              cursor={lyricTiming.cursor}
+              selectedIndex={lyricTiming.selectedIndex}
+              isPlaying={lyricTiming.isPlaying}
+              positionMillis={lyricTiming.positionMillis}
+              durationMillis={lyricTiming.durationMillis}
+              canUndo={lyricTiming.undoStack.length > 0}
+              onBegin={lyricTiming.begin}
+              onEditText={lyricTiming.editText}
+              onTogglePlayback={lyricTiming.togglePlayback}
+              onSeek={lyricTiming.seekTo}
+              onTap={lyricTiming.tap}
+              onTapEnd={lyricTiming.tapEnd}
+              onUndo={lyricTiming.undo}
+              onSelect={lyricTiming.select}
+              onNudge={lyricTiming.nudge}
+              onPlayFrom={lyricTiming.playFrom}
+              onExport={handleExportLyrics}
+              onClose={lyricTiming.close}
+            />
+          ) : processing ? (
+            <ProcessingStatus
+              title={transposing ? 'Preparing Backing Track...' : comping ? 'Assembling Takes...' : mixReady ? 'Mixing Audio...' : 'Preparing Audio...'}
+              subtitle={transposing
+                ? formatTranspose(transpose)
+                : comping ? 'Crossfading the chosen sections...' : mixReady ? 'High quality mix in progress...' : 'Analyzing your performance...'}
+              progress={progress}
+              onCancel={cancelProcessing}
+            />
           ) : isRecording ? (
             <View style={{ flex: 1 }}>
               <View style={styles.lyricsContainer}>
-                <LyricsDisplay lyrics={lyrics} currentTime={positionMillis} />
+                <LyricsDisplay
+                  lyrics={lyrics}
+                  currentTime={positionMillis}
+                  paused={isPaused}
+                  onLineLongPress={syncLineNow}
+                  highlightRange={loop.range}
+                  partLabels={partLabels}
+                />
               </View>
 
               <View style={styles.recordingControls}>
-                <Text style={styles.recordingLabel}>• REC •</Text>
+                <Text style={[styles.recordingLabel, isPaused && styles.pausedLabel]}>
+                  {isPaused ? '• PAUSED •' : loop.range ? `• REC · PASS ${loopTakes.length + 1} •` : '• REC •'}
+                </Text>
 
                 <VolumeVisualizer metering={metering} />
 
-                <TouchableOpacity onPress={stopSession}>
-                  <Animated.View style={[
-                    styles.button,
-                    styles.stopButton,
-                    { transform: [{ scale: pulseAnim }] }
-                  ]}>
-                    <View style={styles.stopIcon} />
-                    <Text style={[styles.buttonText, styles.stopButtonText]}>STOP</Text>
-                  </Animated.View>
-                </TouchableOpacity>
+                <View style={styles.sessionButtons}>
+                  <TouchableOpacity style={styles.pauseButton} onPress={isPaused ? resumeSession : pauseSession}>
+                    <Ionicons name={isPaused ? 'play' : 'pause'} size={26} color="#fff" />
+                  </TouchableOpacity>
+
+                  <TouchableOpacity onPress={stopSession}>
+                    <Animated.View style={[
+                      styles.button,
+                      styles.stopButton,
+                      { transform: [{ scale: pulseAnim }] }
+                    ]}>
+                      <View style={styles.stopIcon} />
+                      <Text style={[styles.buttonText, styles.stopButtonText]}>STOP</Text>
+                    </Animated.View>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          ) : isRehearsing ? (
+            <View style={{ flex: 1 }}>
+              <View style={styles.lyricsContainer}>
+                <LyricsDisplay
+                  lyrics={lyrics}
+                  currentTime={positionMillis}
+                  paused={!isPlaying}
+                  onLinePress={handleLinePress}
+                  onLineLongPress={syncLineNow}
+                  highlightRange={loop.range}
+                  partLabels={partLabels}
+                />
               </View>
+              <LyricSyncControls sync={lyricSync} onChange={setLyricSync} onSyncNow={() => syncLineNow()} />
+              <LoopControls
+                loop={loop}
+                positionMillis={positionMillis}
+                selectingLines={selectingLines}
+                onSetPoint={setLoopPoint}
+                onToggleSelectLines={() => {
+                  setSelectingLines(!selectingLines);
+                  setAnchorLine(null);
+                }}
+                onChange={updateLoop}
+                onClear={clearLoop}
+              />
+              <RehearsalControls
+                isPlaying={isPlaying}
+                positionMillis={positionMillis}
+                durationMillis={durationMillis}
+                onTogglePlayback={toggleRehearsalPlayback}
+                onSeek={seekTo}
+                onClose={stopRehearsal}
+              />
             </View>
-          ) : mixedFileUri ? (
+          ) : loopTakes.length > 0 ? (
+            <View style={styles.center}>
+              <ScrollView style={{ width: '100%' }} contentContainerStyle={{ alignItems: 'center', paddingVertical: 20 }}>
+                <Text style={{ fontSize: 60, marginBottom: 10 }}>🔁</Text>
+                <Text style={[styles.successTitle, { color: 'white' }]}>Loop Takes</Text>
+                <Text style={[styles.successSub, { color: '#B0BEC5' }]}>
+                  {loopTakes.length} {loopTakes.length === 1 ? 'pass' : 'passes'} of {formatDuration(loopTakes[0].startMs)} – {formatDuration(loopTakes[0].endMs)}
+                </Text>
+
+                {loopTakes.map(take => (
+                  <View key={take.id} style={styles.resultCard}>
+                    <AudioPlayer uri={take.uri} title={`Pass ${take.pass}`} />
+                    <View style={styles.actionButtonsRow}>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.purpleBtn]}
+                        onPress={() => shareFile(take.uri)}
+                      >
+                        <Ionicons name="share-outline" size={20} color="#fff" style={styles.btnIcon} />
+                        <Text style={styles.actionBtnText}>Share</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.darkBtn]}
+                        onPress={() => saveFile(take.uri, `loop_pass_${take.pass}`)}
+                      >
+                        <Ionicons name="download-outline" size={20} color="#fff" style={styles.btnIcon} />
+                        <Text style={styles.actionBtnText}>Save</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+
+                <TouchableOpacity style={styles.homeButton} onPress={handleGoHome}>
+                  <Ionicons name="refresh-outline" size={20} color="#fff" style={styles.btnIcon} />
+                  <Text style={styles.homeButtonText}>Done</Text>
+                </TouchableOpacity>
+              </ScrollView>
+            </View>
+          ) : mixReady ? (
             <View style={styles.center}>
               <ScrollView style={{ width: '100%' }} contentContainerStyle={{ alignItems: 'center', paddingVertical: 20 }}>
                 <Animated.View style={{
@@ -280,9 +572,32 @@ export default function App() {
                   <Text style={{ fontSize: 60, marginBottom: 10 }}>🌟</Text>
 
                   <Text style={[styles.successTitle, { color: 'white' }]}>Performance Ready!</Text>
-                  <Text style={[styles.successSub, { color: '#B0BEC5' }]}>Listen to your masterpiece:</Text>
-
-                  <View style={styles.resultCard}>
+                  <Text style={[styles.successSub, { color: '#B0BEC5' }]}>
+                    {mixedFileUri ? 'Listen to your masterpiece:' : 'Balance your mix, then render it:'}
+                  </Text>
+
+                  {score && duet.enabled && isDuetSong && (
+                    <DuetCoverageCard coverage={getDuetCoverage(duet, lyrics, score)} />
+                  )}
+
+                  {score && <ScoreCard score={score} />}
+
+                  {takes.length > 1 && (
+                    <TakeComparison takes={takes} lyrics={lyrics} choices={compChoices} onChoose={chooseTake} />
+                  )}
+
+                  <MixControls
+                    settings={mixSettings.settings}
+                    isPreviewing={isPreviewing}
+                    hasMix={!!mixedFileUri}
+                    durationMillis={durationMillis}
+                    onChange={(changes) => handleMixChange(changes, false)}
+                    onCommit={(changes) => handleMixChange(changes, true)}
+                    onTogglePreview={() => isPreviewing ? stopPreview() : startPreview(mixSettings.settings)}
+                    onRender={() => renderMix(mixSettings.settings)}
+                  />
+
+                  {mixedFileUri && <View style={styles.resultCard}>
                     <AudioPlayer uri={mixedFileUri} title="Karaoke Mix (Final)" />
 
                     <View style={styles.actionButtonsRow}>
@@ -296,13 +611,13 @@ export default function App() {
 
                       <TouchableOpacity
                         style={[styles.actionBtn, styles.downloadBtn]}
-                        onPress={() => saveFile(mixedFileUri, 'karaoke_mix.wav')}
+                        onPress={() => saveFile(mixedFileUri, 'karaoke_mix')}
                       >
                         <Ionicons name="download-outline" size={20} color="#fff" style={styles.btnIcon} />
                         <Text style={styles.actionBtnText}>Save Mix</Text>
                       </TouchableOpacity>
                     </View>
-                  </View>
+                  </View>}
 
                   <View style={styles.resultCard}>
                     <AudioPlayer uri={voiceFileUri} title="Voice Recording (Raw)" />
@@ -318,7 +633,7 @@ export default function App() {
 
                       <TouchableOpacity
                         style={[styles.actionBtn, styles.darkBtn]}
-                        onPress={() => saveFile(voiceFileUri, 'voice.wav')}
+                        onPress={() => saveFile(voiceFileUri, 'voice')}
                       >
                         <Ionicons name="download-outline" size={20} color="#fff" style={styles.btnIcon} />
                         <Text style={styles.actionBtnText}>Save Voice</Text>
@@ -326,6 +641,11 @@ export default function App() {
                     </View>
                   </View>
 
+                  <TouchableOpacity style={styles.linkButton} onPress={startSession}>
+                    <Ionicons name="mic-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                    <Text style={styles.linkButtonText}>Record Another Take</Text>
+                  </TouchableOpacity>
+
                   <TouchableOpacity
                     style={styles.homeButton}
                     onPress={handleGoHome}
@@ -337,20 +657,104 @@ export default function App() {
                 </Animated.View>
               </ScrollView>
             </View>
+          ) : showHistory ? (
+            <PerformanceHistory
+              performances={history.performances}
+              loading={history.loading}
+              onShare={(performance) => shareFile(performance.mixUri)}
+              onSave={(performance) => saveFile(performance.mixUri, performance.title.replace(/[^a-z0-9_-]+/gi, '_'))}
+              onRename={history.rename}
+              onDelete={history.remove}
+              onClose={() => setShowHistory(false)}
+            />
+          ) : showCalibration ? (
+            <LatencyCalibration
+              status={calibration.status}
+              latencyMs={calibration.latencyMs}
+              measuredMs={calibration.measuredMs}
+              error={calibration.error}
+              onStart={calibration.start}
+              onSave={calibration.save}
+              onClose={() => {
+                calibration.cancel();
+                setShowCalibration(false);
+              }}
+            />
+          ) : !selectedSong && showImporter ? (
+            <SongImporter
+              onImport={library.importSong}
+              onImported={(song) => {
+                setShowImporter(false);
+                selectSong(song);
+              }}
+              onCancel={() => setShowImporter(false)}
+            />
+          ) : !selectedSong ? (
+            <SongLibrary
+              songs={library.songs}
+              loading={library.loading}
+              onSelect={selectSong}
+              onImport={() => setShowImporter(true)}
+              onShowHistory={openHistory}
+            />
           ) : (
             <View style={styles.center}>
               <View style={styles.heroIcon}>
                 <Text style={{ fontSize: 60 }}>🎧</Text>
               </View>
               <Text style={[styles.instructionTitle, { color: 'white' }]}>Ready to Sing?</Text>
+              <Text style={styles.songTitle}>{selectedSong.title}</Text>
+              <Text style={styles.songArtist}>{selectedSong.artist}</Text>
               <Text style={[styles.instruction, { color: '#B0BEC5' }]}>
                 Use headphones for the best experience.
               </Text>
+              <LyricsDiagnostics key={selectedSong.id} diagnostics={lyricsDiagnostics} />
+              <TransposeControls settings={transpose} onChange={setTranspose} />
+              <LyricBreakControls settings={lyricBreaks} onChange={setLyricBreaks} />
+              {isDuetSong && <DuetControls setup={duet} onChange={setDuet} />}
+              {loop.range && (
+                <View style={styles.loopSummary}>
+                  <Ionicons name="repeat" size={18} color="#4FC3F7" style={styles.btnIcon} />
+                  <Text style={styles.loopSummaryText}>
+                    Looping {formatDuration(loop.range.startMs)} – {formatDuration(loop.range.endMs)}
+                    {loop.rate !== 1 ? ` at ${Math.round(loop.rate * 100)}%` : ''}
+                  </Text>
+                  <TouchableOpacity onPress={clearLoop}>
+                    <Ionicons name="close-circle" size={20} color="#B0BEC5" />
+                  </TouchableOpacity>
+                </View>
+              )}
               <TouchableOpacity style={[styles.button, styles.startButton]} onPress={startSession}>
                 <Ionicons name="mic" size={24} color="#0f0c29" style={{ marginRight: 10 }} />
                 <Text style={[styles.buttonText, { color: '#0f0c29' }]}>Start Karaoke</Text>
               </TouchableOpacity>
-              {!lyricsLoaded && <Text style={styles.warning}>Lyrics loading...</Text>}
+              {!lyricsLoaded && !lyricsError && <Text style={styles.warning}>Lyrics loading...</Text>}
+              <TouchableOpacity style={styles.linkButton} onPress={startRehearsal}>
+                <Ionicons name="book-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>Rehearse (no recording)</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={() => vocalRemoval.open(selectedSong)}>
+                <Ionicons name="cut-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>Remove Vocals</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={() => lyricTiming.open(selectedSong)}>
+                <Ionicons name="hand-left-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>Sync Lyrics</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={clearSong}>
+                <Ionicons name="list-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>Change Song</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={openHistory}>
+                <Ionicons name="time-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>My Performances</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.linkButton} onPress={() => setShowCalibration(true)}>
+                <Ionicons name="timer-outline" size={18} color="#B0BEC5" style={styles.btnIcon} />
+                <Text style={styles.linkButtonText}>
+                  Calibrate Sync{calibration.latencyMs !== null ? ` (${calibration.latencyMs} ms)` : ''}
+                </Text>
+              </TouchableOpacity>
             </View>
           )}
         </View>
@@ -441,6 +845,22 @@ const styles = StyleSheet.create({
     backgroundColor: '#fff',
     width: 200,
   },
+  sessionButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  pauseButton: {
+    width: 58,
+    height: 58,
+    borderRadius: 29,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pausedLabel: {
+    color: '#FFD740',
+  },
   stopIcon: {
     width: 16,
     height: 16,
@@ -526,16 +946,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
-  statusText: {
-    marginTop: 20,
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: '#fff',
-  },
-  subStatus: {
-    marginTop: 8,
-    color: '#B0BEC5',
-  },
   heroIcon: {
     width: 120,
     height: 120,
@@ -564,4 +974,40 @@ const styles = StyleSheet.create({
     marginTop: 15,
     fontWeight: '500',
   },
+  songTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#FFD740',
+    textAlign: 'center',
+  },
+  songArtist: {
+    fontSize: 14,
+    color: '#B0BEC5',
+    marginTop: 2,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    padding: 10,
+  },
+  linkButtonText: {
+    color: '#B0BEC5',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loopSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -10,
+    marginBottom: 20,
+  },
+  loopSummaryText: {
+    color: '#4FC3F7',
+    fontSize: 14,
+    fontWeight: '600',
+    marginRight: 8,
+  },
 });
\ No newline at end of file
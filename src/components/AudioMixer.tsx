@@ -1,38 +1,331 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { View } from 'react-native';
 import { WebView } from 'react-native-webview';
+import { PitchTrack } from '../utils/pitchScoring';
+import { LatencyMeasurement } from '../utils/latencyCalibration';
+import { MixSettings } from '../utils/mixSettings';
+import { getVocalEffect } from '../utils/vocalEffects';
+import { ExportFormatId, getExportProfile, getExportFormat } from '../utils/exportProfiles';
+import { TransposeSettings } from '../utils/transpose';
+import { CompRegion, VoiceSegment, COMP_CROSSFADE_MS } from '../utils/takeComping';
+import { VocalRemovalSettings } from '../utils/vocalRemoval';
+import {
+  TRANSFER_CHUNK_BYTES,
+  ACK_TIMEOUT_MS,
+  MAX_CHUNK_RETRIES,
+  IncomingTransfer,
+  openFileForTransfer,
+  readFileChunk,
+  createIncomingTransfer,
+  addChunk,
+  finishTransfer,
+  discardTransfer
+} from '../utils/chunkedTransfer';
+
+/**
+ * Options passed to the WebView along with the audio.
+ */
+export interface MixOptions {
+  latencyMs: number | null; // Calibrated round-trip latency, null uses the default
+}
+
+/**
+ * A recorded take of the session, with the segments of its pauses.
+ */
+export interface SessionTake {
+  uri: string;
+  segments: VoiceSegment[];
+}
+
+/**
+ * Stages of a mixer job, in the order they usually occur.
+ */
+export type MixStage = 'transferring' | 'decoding' | 'rendering' | 'encoding' | 'saving';
+
+/**
+ * Progress of the running mixer job.
+ */
+export interface MixProgress {
+  stage: MixStage;
+  percent: number | null; // null when the stage cannot be measured
+}
+
+// Error message of jobs that were stopped through cancel()
+export const MIX_CANCELLED = 'Cancelled';
+
+/**
+ * Signals recorded by the latency calibration.
+ */
+export interface CalibrationAudio {
+  clickUri: string;
+  recordingUri: string;
+}
+
+/**
+ * Commands that can be sent to the mixer.
+ * Audio files are streamed to the WebView in acknowledged chunks before a command uses them.
+ */
+export interface AudioMixerHandle {
+  loadSession: (songUri: string, takes: SessionTake[], comp: CompRegion[]) => Promise<void>; // Resolves once the files are transferred
+  setComp: (comp: CompRegion[]) => void; // Reassembles the vocal of the loaded takes
+  startPreview: (settings: MixSettings, positionSec: number) => void;
+  updatePreview: (settings: MixSettings) => void;
+  stopPreview: () => void;
+  mix: (settings: MixSettings) => void;
+  release: () => void;
+  cancel: () => void; // Stops the running job and drops unfinished transfers
+  transposeTrack: (songUri: string, settings: TransposeSettings) => Promise<string>; // Resolves with the URI of the WAV in the cache directory
+  loadVocalSource: (songUri: string) => Promise<void>; // Resolves once the original song is decoded
+  startVocalPreview: (settings: VocalRemovalSettings, processed: boolean, positionSec: number) => void;
+  updateVocalPreview: (settings: VocalRemovalSettings, processed: boolean) => void;
+  stopVocalPreview: () => void;
+  removeVocals: (settings: VocalRemovalSettings) => Promise<string>; // Resolves with the URI of the WAV in the cache directory
+  releaseVocalSource: () => void;
+}
 
 /**
  * Props for the AudioMixer component.
  */
 interface Props {
-  songBase64: string | null;
-  voiceBase64: string | null;
-  onMixComplete: (mixedBase64: string) => void;
+  options: MixOptions;
+  calibration: CalibrationAudio | null;
+  onSessionReady: () => void;
+  onPreviewEnded: (error?: string) => void;
+  onVocalPreviewEnded: (error?: string) => void;
+  onMixComplete: (mixedUri: string, formatId: ExportFormatId) => void;
+  onProgress: (progress: MixProgress) => void;
+  onPitchAnalysis: (track: PitchTrack) => void;
+  onLatencyMeasured: (measurement: LatencyMeasurement) => void;
+  onLatencyError: (error: string) => void;
   onError: (error: string) => void;
 }
 
 /**
  * A hidden component that uses a WebView to mix audio tracks using the Web Audio API.
  * This is necessary because React Native's native audio libraries often lack advanced mixing capabilities like offline rendering.
- * 
- * @param songBase64 Base64 string of the backing track
- * @param voiceBase64 Base64 string of the recorded voice
- * @param onMixComplete Callback function when mixing is finished
+ * The performance is decoded once; previews and renders are then triggered through the ref handle.
+ * Audio crosses the bridge in numbered chunks that the receiver acknowledges and reassembles,
+ * so no single message has to carry a whole file; React Native writes received chunks straight to a file.
+ *
+ * @param options Mixing and analysis options
+ * @param calibration Click track and its recording to measure the latency from
+ * @param onSessionReady Callback function when the performance is decoded and analyzed
+ * @param onPreviewEnded Callback function when the live preview reached the end or failed to start
+ * @param onVocalPreviewEnded Callback function when the vocal removal preview reached the end or failed to start
+ * @param onMixComplete Callback function when mixing is finished, with the format actually written (WAV if compressed encoding failed)
+ * @param onProgress Callback function with the stage of the running job
+ * @param onPitchAnalysis Callback function with the pitch contours of the performance
+ * @param onLatencyMeasured Callback function with the calibration result
+ * @param onLatencyError Callback function when the calibration fails
  * @param onError Callback function when an error occurs
  */
-export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComplete, onError }) => {
+export const AudioMixer = forwardRef<AudioMixerHandle, Props>(({
+  options,
+  calibration,
+  onSessionReady,
+  onPreviewEnded,
+  onVocalPreviewEnded,
+  onMixComplete,
+  onProgress,
+  onPitchAnalysis,
+  onLatencyMeasured,
+  onLatencyError,
+  onError
+}, ref) => {
   const webviewRef = useRef<WebView>(null);
+  // Pending transposeTrack call, settled by the WebView result message
+  const transposeRef = useRef<{ resolve: (data: string) => void; reject: (error: Error) => void } | null>(null);
+  // Pending vocal removal call (loading or rendering), settled by the WebView result message
+  const vocalsRef = useRef<{ resolve: (data: string) => void; reject: (error: Error) => void } | null>(null);
+  // Chunks sent to the WebView that wait for their acknowledgement, keyed by "id:seq"
+  const pendingAcksRef = useRef(new Map<string, { ack: () => void; cancel: () => void }>());
+  // Incremented by cancel() so running transfers stop before their next chunk
+  const transferGenerationRef = useRef(0);
+  // Files being received from the WebView, keyed by transfer ID
+  const incomingRef = useRef(new Map<string, IncomingTransfer>());
 
-  // Trigger mixing when both audio sources are available
-  useEffect(() => {
-    if (songBase64 && voiceBase64) {
-      setTimeout(() => {
-        const script = `mixAudio("${songBase64}", "${voiceBase64}");`;
-        webviewRef.current?.injectJavaScript(script);
-      }, 500);
+  /**
+   * Runs a script inside the WebView.
+   */
+  const run = (script: string) => {
+    webviewRef.current?.injectJavaScript(script + ' true;');
+  };
+
+  /**
+   * Sends one chunk to the WebView and waits for its acknowledgement, resending it on timeout.
+   */
+  const sendChunk = (id: string, seq: number, data: string) => new Promise<void>((resolve, reject) => {
+    const key = `${id}:${seq}`;
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const send = () => {
+      if (attempts++ > MAX_CHUNK_RETRIES) {
+        pendingAcksRef.current.delete(key);
+        reject(new Error(`No acknowledgement for chunk ${seq} of ${id}`));
+        return;
+      }
+      run(`receiveChunk("${id}", ${seq}, "${data}");`);
+      timer = setTimeout(send, ACK_TIMEOUT_MS);
+    };
+    pendingAcksRef.current.set(key, {
+      ack: () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      cancel: () => {
+        clearTimeout(timer);
+        reject(new Error(MIX_CANCELLED));
+      }
+    });
+    send();
+  });
+
+  /**
+   * Streams local audio files to the WebView, where each is stored under its ID.
+   * Only one chunk is read into memory at a time.
+   *
+   * @param files IDs and URIs of the files
+   * @param reportProgress Whether to report the transfer as a progress stage
+   */
+  const sendFiles = async (files: { id: string; uri: string }[], reportProgress: boolean) => {
+    const generation = transferGenerationRef.current;
+    const opened = await Promise.all(files.map(file => openFileForTransfer(file.uri)));
+    const totalChunks = opened.reduce((sum, file) => sum + file.chunkCount, 0);
+    let sentChunks = 0;
+
+    for (let i = 0; i < files.length; i++) {
+      const { id } = files[i];
+      run(`beginTransfer("${id}", ${opened[i].chunkCount});`);
+      for (let seq = 0; seq < opened[i].chunkCount; seq++) {
+        if (transferGenerationRef.current !== generation) throw new Error(MIX_CANCELLED);
+        if (reportProgress) onProgress({ stage: 'transferring', percent: Math.round(sentChunks / totalChunks * 100) });
+        await sendChunk(id, seq, await readFileChunk(opened[i], seq));
+        sentChunks++;
+      }
+    }
+  };
+
+  /**
+   * Appends a chunk sent by the WebView to its file and acknowledges it.
+   * A chunk that cannot be written is not acknowledged, so the WebView sends it again.
+   */
+  const receiveChunk = (id: string, seq: number, data: string) => {
+    try {
+      let transfer = incomingRef.current.get(id);
+      if (!transfer) {
+        transfer = createIncomingTransfer(id);
+        incomingRef.current.set(id, transfer);
+      }
+      addChunk(transfer, seq, data);
+    } catch (e) {
+      console.error('Failed to write a received chunk', e);
+      return;
     }
-  }, [songBase64, voiceBase64]);
+    run(`ackChunk("${id}", ${seq});`);
+  };
+
+  /**
+   * Completes a file sent by the WebView.
+   *
+   * @returns URI of the file in the cache directory
+   */
+  const takeTransfer = (id: string, chunkCount: number): string => {
+    const transfer = incomingRef.current.get(id);
+    incomingRef.current.delete(id);
+    if (!transfer) throw new Error(`Transfer incomplete: 0 of ${chunkCount} chunks received`);
+    return finishTransfer(transfer, chunkCount);
+  };
+
+  /**
+   * Serializes the settings for the WebView, resolving the effect preset and export options to their parameters.
+   */
+  const toScriptSettings = (settings: MixSettings) => {
+    return JSON.stringify({
+      ...settings,
+      effect: getVocalEffect(settings.effectPreset),
+      output: getExportProfile(settings.exportProfile),
+      format: getExportFormat(settings.exportFormat)
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    loadSession: async (songUri, takes, comp) => {
+      const voiceIds = takes.map((_, index) => `voice-${index}`);
+      await sendFiles([
+        { id: 'song', uri: songUri },
+        ...takes.map((take, index) => ({ id: voiceIds[index], uri: take.uri }))
+      ], true);
+      const segments = takes.map(take => take.segments);
+      run(`loadSession("song", ${JSON.stringify(voiceIds)}, ${JSON.stringify(options)}, ${JSON.stringify(segments)}, ${JSON.stringify(comp)});`);
+    },
+    setComp: (comp) => run(`setComp(${JSON.stringify(comp)});`),
+    startPreview: (settings, positionSec) => run(`startPreview(${toScriptSettings(settings)}, ${positionSec});`),
+    updatePreview: (settings) => run(`updatePreview(${toScriptSettings(settings)});`),
+    stopPreview: () => run('stopPreview();'),
+    mix: (settings) => run(`mixAudio(${toScriptSettings(settings)});`),
+    release: () => run('releaseSession();'),
+    cancel: () => {
+      transferGenerationRef.current++;
+      run('cancelJob();');
+      pendingAcksRef.current.forEach(pending => pending.cancel());
+      pendingAcksRef.current.clear();
+      incomingRef.current.forEach(discardTransfer);
+      incomingRef.current.clear();
+      transposeRef.current?.reject(new Error(MIX_CANCELLED));
+      transposeRef.current = null;
+      vocalsRef.current?.reject(new Error(MIX_CANCELLED));
+      vocalsRef.current = null;
+    },
+    transposeTrack: async (songUri, settings) => {
+      transposeRef.current?.reject(new Error(MIX_CANCELLED));
+      transposeRef.current = null;
+      await sendFiles([{ id: 'track', uri: songUri }], true);
+      return new Promise<string>((resolve, reject) => {
+        transposeRef.current = { resolve, reject };
+        run(`transposeTrack("track", ${JSON.stringify(settings)});`);
+      });
+    },
+    loadVocalSource: async (songUri) => {
+      vocalsRef.current?.reject(new Error(MIX_CANCELLED));
+      vocalsRef.current = null;
+      await sendFiles([{ id: 'original', uri: songUri }], true);
+      await new Promise<string>((resolve, reject) => {
+        vocalsRef.current = { resolve, reject };
+        run('loadVocalSource("original");');
+      });
+    },
+    startVocalPreview: (settings, processed, positionSec) => {
+      run(`startVocalPreview(${JSON.stringify(settings)}, ${processed}, ${positionSec});`);
+    },
+    updateVocalPreview: (settings, processed) => run(`updateVocalPreview(${JSON.stringify(settings)}, ${processed});`),
+    stopVocalPreview: () => run('stopVocalPreview();'),
+    removeVocals: (settings) => {
+      vocalsRef.current?.reject(new Error(MIX_CANCELLED));
+      return new Promise<string>((resolve, reject) => {
+        vocalsRef.current = { resolve, reject };
+        run(`removeVocals(${JSON.stringify(settings)});`);
+      });
+    },
+    releaseVocalSource: () => run('releaseVocalSource();'),
+  }));
+
+  // Measure the latency when a calibration recording is available
+  useEffect(() => {
+    if (!calibration) return;
+
+    const measure = async () => {
+      try {
+        await sendFiles([
+          { id: 'click', uri: calibration.clickUri },
+          { id: 'recording', uri: calibration.recordingUri }
+        ], false);
+        run('measureLatency("click", "recording");');
+      } catch (e: any) {
+        onLatencyError(e.message);
+      }
+    };
+    measure();
+  }, [calibration?.recordingUri]);
 
   const htmlContent = `
     <!DOCTYPE html>
@@ -53,41 +346,143 @@ export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComp
           }
 
           /**
-           * Encodes raw audio samples into a WAV file format (Mono).
+           * Encodes an AudioBuffer into a PCM WAV file with all of its channels interleaved.
+           * Supports 16-bit and 24-bit samples.
            */
-          function encodeWAVMono(samples, sampleRate) {
-            var buffer = new ArrayBuffer(44 + samples.length * 2);
+          function encodeWAV(audioBuffer, bitDepth) {
+            var channels = audioBuffer.numberOfChannels;
+            var length = audioBuffer.length;
+            var sampleRate = audioBuffer.sampleRate;
+            var bytesPerSample = bitDepth / 8;
+            var blockAlign = channels * bytesPerSample;
+            var dataSize = length * blockAlign;
+            var buffer = new ArrayBuffer(44 + dataSize);
             var view = new DataView(buffer);
 
             writeString(view, 0, 'RIFF');
-            view.setUint32(4, 36 + samples.length * 2, true);
+            view.setUint32(4, 36 + dataSize, true);
             writeString(view, 8, 'WAVE');
             writeString(view, 12, 'fmt ');
             view.setUint32(16, 16, true);
-            view.setUint16(20, 1, true); 
-            view.setUint16(22, 1, true); 
+            view.setUint16(20, 1, true);
+            view.setUint16(22, channels, true);
             view.setUint32(24, sampleRate, true);
-            view.setUint32(28, sampleRate * 2, true); 
-            view.setUint16(32, 2, true); 
-            view.setUint16(34, 16, true); 
+            view.setUint32(28, sampleRate * blockAlign, true);
+            view.setUint16(32, blockAlign, true);
+            view.setUint16(34, bitDepth, true);
             writeString(view, 36, 'data');
-            view.setUint32(40, samples.length * 2, true);
+            view.setUint32(40, dataSize, true);
 
-            floatTo16BitPCM(view, 44, samples);
+            var data = [];
+            for (var c = 0; c < channels; c++) data.push(audioBuffer.getChannelData(c));
 
+            var offset = 44;
+            for (var i = 0; i < length; i++) {
+              for (var ch = 0; ch < channels; ch++, offset += bytesPerSample) {
+                writePCMSample(view, offset, data[ch][i], bitDepth);
+              }
+            }
             return buffer;
           }
 
           /**
-           * Converts float samples to 16-bit PCM.
+           * Writes one float sample as little-endian signed PCM.
            */
-          function floatTo16BitPCM(output, offset, input) {
-            for (var i = 0; i < input.length; i++, offset += 2) {
-              var s = Math.max(-1, Math.min(1, input[i]));
-              output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+          function writePCMSample(view, offset, sample, bitDepth) {
+            var s = Math.max(-1, Math.min(1, sample));
+            if (bitDepth === 24) {
+              var v = Math.round(s < 0 ? s * 0x800000 : s * 0x7FFFFF);
+              view.setUint8(offset, v & 0xFF);
+              view.setUint8(offset + 1, (v >> 8) & 0xFF);
+              view.setUint8(offset + 2, (v >> 16) & 0xFF);
+            } else {
+              view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
             }
           }
 
+          var ENCODER_START_TIMEOUT_MS = 5000;
+          var ENCODER_STALL_MARGIN_MS = 15000;
+
+          /**
+           * Encodes an AudioBuffer with the WebView's MediaRecorder (Opus/AAC).
+           * The recorder only accepts live streams, so the buffer is played in real time.
+           * Rejects when the audio context does not start or the recorder stalls, so the mix can fall back to WAV.
+           */
+          function encodeCompressed(audioBuffer, mimeType, bitrate, job) {
+            return new Promise(function(resolve, reject) {
+              if (!window.MediaRecorder || !MediaRecorder.isTypeSupported(mimeType)) {
+                reject(new Error(mimeType + ' encoding is not supported on this device'));
+                return;
+              }
+
+              var ctx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: audioBuffer.sampleRate });
+              var source = ctx.createBufferSource();
+              source.buffer = audioBuffer;
+              var destination = ctx.createMediaStreamDestination();
+              destination.channelCount = audioBuffer.numberOfChannels;
+              source.connect(destination);
+
+              var chunks = [];
+              var progressTimer = null;
+              var done = false;
+              var recorder = new MediaRecorder(destination.stream, { mimeType: mimeType, audioBitsPerSecond: bitrate });
+
+              var finish = function(error, blob) {
+                if (done) return;
+                done = true;
+                clearInterval(progressTimer);
+                clearTimeout(watchdog);
+                ctx.close();
+                if (error) reject(error);
+                else resolve(blob);
+              };
+              var fail = function(message) {
+                source.onended = null;
+                recorder.onstop = null;
+                try { source.stop(); } catch (e) {}
+                if (recorder.state !== 'inactive') recorder.stop();
+                finish(new Error(message));
+              };
+
+              // The context has to start in time, the recording may take the length of the mix plus a margin
+              var watchdog = setTimeout(function() { fail('Audio context did not start'); }, ENCODER_START_TIMEOUT_MS);
+
+              recorder.ondataavailable = function(event) {
+                if (event.data.size > 0) chunks.push(event.data);
+              };
+              recorder.onstop = function() {
+                if (job !== currentJob) finish(new Error('Cancelled'));
+                else finish(null, new Blob(chunks, { type: mimeType }));
+              };
+              recorder.onerror = function(event) {
+                finish(event.error || new Error('Encoding failed'));
+              };
+              source.onended = function() {
+                recorder.stop();
+              };
+
+              ctx.resume().then(function() {
+                if (done) return;
+                clearTimeout(watchdog);
+                watchdog = setTimeout(function() { fail('Encoding stalled'); },
+                  audioBuffer.duration * 1000 + ENCODER_STALL_MARGIN_MS);
+                recorder.start(1000);
+                source.start();
+                progressTimer = setInterval(function() {
+                  if (job !== currentJob) {
+                    source.onended = null;
+                    source.stop();
+                    recorder.stop();
+                    return;
+                  }
+                  reportProgress('encoding', Math.min(100, ctx.currentTime / audioBuffer.duration * 100));
+                }, 500);
+              }).catch(function(e) {
+                fail('Audio context did not start: ' + e.message);
+              });
+            });
+          }
+
           /**
            * Writes a string to a DataView at a specific offset.
            */
@@ -112,22 +507,1072 @@ export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComp
             });
           }
 
+          // Incremented by every long-running job and by cancelJob; stale jobs stop at their next check
+          var currentJob = 0;
+
           /**
-           * Main mixing function exposed to React Native.
-           * Decodes audio, mixes them with latency compensation, and renders to WAV.
+           * Throws when the job was cancelled or replaced by a newer one.
            */
-          window.mixAudio = async function(songB64, voiceB64) {
+          function checkJob(job) {
+            if (job !== currentJob) throw new Error('Cancelled');
+          }
+
+          /**
+           * Reports the stage of the running job, percent is null when unknown.
+           */
+          function reportProgress(stage, percent) {
+            window.ReactNativeWebView.postMessage(JSON.stringify({
+              type: 'progress',
+              stage: stage,
+              percent: percent === null ? null : Math.round(percent)
+            }));
+          }
+
+          /**
+           * Aborts the running job and drops unfinished transfers.
+           * Exposed to React Native.
+           */
+          window.cancelJob = function() {
+            currentJob++;
+            incomingTransfers = {};
+            for (var key in pendingAcks) pendingAcks[key].reject(new Error('Cancelled'));
+            pendingAcks = {};
+          };
+
+          var TRANSFER_CHUNK_BYTES = ${TRANSFER_CHUNK_BYTES};
+          var ACK_TIMEOUT_MS = ${ACK_TIMEOUT_MS};
+          var MAX_CHUNK_RETRIES = ${MAX_CHUNK_RETRIES};
+
+          // Files sent by React Native, decoded chunk by chunk as they arrive
+          var incomingTransfers = {};
+          // Chunks sent to React Native that wait for their acknowledgement
+          var pendingAcks = {};
+          var nextTransferId = 1;
+
+          /**
+           * Starts receiving a file from React Native.
+           * Exposed to React Native.
+           */
+          window.beginTransfer = function(id, chunkCount) {
+            incomingTransfers[id] = { parts: new Array(chunkCount), received: 0, chunkCount: chunkCount };
+          };
+
+          /**
+           * Stores one chunk of an incoming file and acknowledges it.
+           * Retransmitted chunks are acknowledged again but stored only once.
+           * Exposed to React Native.
+           */
+          window.receiveChunk = function(id, seq, data) {
+            var transfer = incomingTransfers[id];
+            if (!transfer) return;
+            if (!transfer.parts[seq]) {
+              transfer.parts[seq] = new Uint8Array(base64ToArrayBuffer(data));
+              transfer.received++;
+            }
+            window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'ack', id: id, seq: seq }));
+          };
+
+          /**
+           * Reassembles a received file and frees its chunks.
+           */
+          function takeTransfer(id) {
+            var transfer = incomingTransfers[id];
+            if (!transfer || transfer.received !== transfer.chunkCount) {
+              throw new Error('Audio transfer incomplete: ' + id);
+            }
+            delete incomingTransfers[id];
+
+            var length = 0;
+            for (var i = 0; i < transfer.parts.length; i++) length += transfer.parts[i].length;
+            var bytes = new Uint8Array(length);
+            var offset = 0;
+            for (var j = 0; j < transfer.parts.length; j++) {
+              bytes.set(transfer.parts[j], offset);
+              offset += transfer.parts[j].length;
+            }
+            return bytes.buffer;
+          }
+
+          /**
+           * Marks a chunk sent to React Native as received.
+           * Exposed to React Native.
+           */
+          window.ackChunk = function(id, seq) {
+            var key = id + ':' + seq;
+            var pending = pendingAcks[key];
+            if (pending) {
+              delete pendingAcks[key];
+              pending.resolve();
+            }
+          };
+
+          /**
+           * Sends one chunk to React Native and waits for its acknowledgement, resending it on timeout.
+           */
+          function sendChunk(id, seq, chunkCount, data) {
+            return new Promise(function(resolve, reject) {
+              var key = id + ':' + seq;
+              var attempts = 0;
+              var timer = null;
+              var send = function() {
+                if (attempts++ > MAX_CHUNK_RETRIES) {
+                  delete pendingAcks[key];
+                  reject(new Error('No acknowledgement for chunk ' + seq));
+                  return;
+                }
+                window.ReactNativeWebView.postMessage(JSON.stringify({
+                  type: 'chunk', id: id, seq: seq, chunkCount: chunkCount, data: data
+                }));
+                timer = setTimeout(send, ACK_TIMEOUT_MS);
+              };
+              pendingAcks[key] = {
+                resolve: function() {
+                  clearTimeout(timer);
+                  resolve();
+                },
+                reject: function(error) {
+                  clearTimeout(timer);
+                  reject(error);
+                }
+              };
+              send();
+            });
+          }
+
+          /**
+           * Sends a Blob to React Native in acknowledged chunks.
+           * Returns the transfer to reference in the result message.
+           */
+          async function sendBlob(blob, job) {
+            var id = 'out-' + (nextTransferId++);
+            var chunkCount = Math.max(1, Math.ceil(blob.size / TRANSFER_CHUNK_BYTES));
+            for (var seq = 0; seq < chunkCount; seq++) {
+              checkJob(job);
+              reportProgress('transferring', seq / chunkCount * 100);
+              var start = seq * TRANSFER_CHUNK_BYTES;
+              var data = await blobToBase64(blob.slice(start, start + TRANSFER_CHUNK_BYTES));
+              await sendChunk(id, seq, chunkCount, data);
+            }
+            return { transferId: id, chunkCount: chunkCount };
+          }
+
+          var PITCH_RATE = 11025; // Analysis sample rate, enough for singing voices
+          var PITCH_WINDOW = 512;
+          var PITCH_MIN_HZ = 70;
+          var PITCH_MAX_HZ = 1000;
+          var YIN_THRESHOLD = 0.15;
+          var SILENCE_RMS = 0.01;
+
+          /**
+           * Downmixes and resamples an AudioBuffer to mono at the given rate.
+           */
+          async function resampleMono(buffer, rate) {
+            var length = Math.ceil(buffer.duration * rate);
+            var ctx = new (window.OfflineAudioContext || window.webkitOfflineAudioContext)(1, length, rate);
+            var source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(ctx.destination);
+            source.start(0);
+            var rendered = await ctx.startRendering();
+            return rendered.getChannelData(0);
+          }
+
+          /**
+           * Estimates the pitch of one frame with the YIN algorithm.
+           * Returns a MIDI note number, or 0 when the frame is silent or unvoiced.
+           */
+          function yinPitch(data, start, diff) {
+            var maxTau = diff.length - 1;
+            var minTau = Math.floor(PITCH_RATE / PITCH_MAX_HZ);
+
+            var energy = 0;
+            for (var i = 0; i < PITCH_WINDOW; i++) energy += data[start + i] * data[start + i];
+            if (Math.sqrt(energy / PITCH_WINDOW) < SILENCE_RMS) return 0;
+
+            // Difference function
+            for (var tau = 1; tau <= maxTau; tau++) {
+              var sum = 0;
+              for (var j = 0; j < PITCH_WINDOW; j++) {
+                var delta = data[start + j] - data[start + j + tau];
+                sum += delta * delta;
+              }
+              diff[tau] = sum;
+            }
+
+            // Cumulative mean normalized difference
+            diff[0] = 1;
+            var running = 0;
+            for (var t = 1; t <= maxTau; t++) {
+              running += diff[t];
+              diff[t] = running > 0 ? diff[t] * t / running : 1;
+            }
+
+            // First dip below the threshold, followed down to its local minimum
+            for (var k = minTau; k < maxTau; k++) {
+              if (diff[k] < YIN_THRESHOLD) {
+                while (k + 1 < maxTau && diff[k + 1] < diff[k]) k++;
+                // Parabolic interpolation around the minimum
+                var a = diff[k - 1], b = diff[k], c = diff[k + 1];
+                var shift = (a - 2 * b + c) !== 0 ? (a - c) / (2 * (a - 2 * b + c)) : 0;
+                var freq = PITCH_RATE / (k + shift);
+                return Math.round((69 + 12 * Math.log2(freq / 440)) * 100) / 100;
+              }
+            }
+            return 0;
+          }
+
+          /**
+           * Computes the pitch contour of a buffer, one MIDI value per frame.
+           * skipSec drops the beginning of the buffer (latency compensation).
+           * The YIN pass runs synchronously and cannot be cancelled, a cancel takes effect once it returns.
+           */
+          async function detectPitchTrack(buffer, skipSec) {
+            var data = await resampleMono(buffer, PITCH_RATE);
+            var maxTau = Math.ceil(PITCH_RATE / PITCH_MIN_HZ);
+            var diff = new Float32Array(maxTau + 1);
+            var track = [];
+            var first = Math.floor(skipSec * PITCH_RATE);
+            for (var start = first; start + PITCH_WINDOW + maxTau < data.length; start += PITCH_WINDOW) {
+              track.push(yinPitch(data, start, diff));
+            }
+            return track;
+          }
+
+          /**
+           * Analyzes the sung pitch and posts the contour to React Native,
+           * which scores it against the melody file and finds the voiced lines.
+           * voiceSkip is the signed voice skip of the mix: a negative skip means the recording starts
+           * after the song, that leading gap is filled with unvoiced frames so frame i stays at song time i.
+           */
+          async function analyzePitch(voiceBuffer, voiceSkip) {
+            try {
+              var gapFrames = voiceSkip < 0 ? Math.ceil(-voiceSkip * PITCH_RATE / PITCH_WINDOW) : 0;
+              var firstSec = Math.max(0, voiceSkip + gapFrames * PITCH_WINDOW / PITCH_RATE);
+              var voice = new Array(gapFrames).fill(0).concat(await detectPitchTrack(voiceBuffer, firstSec));
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'pitch',
+                data: { frameMillis: 1000 * PITCH_WINDOW / PITCH_RATE, voice: voice }
+              }));
+            } catch (e) {
+              // Scoring is optional, the mix continues without it
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'log', message: 'Pitch analysis failed: ' + e.message }));
+            }
+          }
+
+          var CALIBRATION_RATE = 11025;
+          var MAX_LATENCY_SEC = 0.8;
+          var MIN_CONFIDENCE = 4;
+
+          /**
+           * Measures the round-trip latency by cross-correlating the click track with its recording.
+           * Only the non-silent click samples are correlated, which keeps the search cheap.
+           */
+          window.measureLatency = async function(clickId, recordingId) {
             try {
               const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
-              
-              const songBuffer = await audioCtx.decodeAudioData(base64ToArrayBuffer(songB64));
-              const voiceBuffer = await audioCtx.decodeAudioData(base64ToArrayBuffer(voiceB64));
-              
-              const TARGET_RATE = 22050;
-              const TARGET_CHANNELS = 1;
-              const LATENCY_COMPENSATION_SEC = 0.160; // Latency compensation for specific device
+              const clickBuffer = await audioCtx.decodeAudioData(takeTransfer(clickId));
+              const recordingBuffer = await audioCtx.decodeAudioData(takeTransfer(recordingId));
+
+              const click = await resampleMono(clickBuffer, CALIBRATION_RATE);
+              const recording = await resampleMono(recordingBuffer, CALIBRATION_RATE);
+
+              var clickIndices = [];
+              for (var i = 0; i < click.length; i++) {
+                if (Math.abs(click[i]) > 0.01) clickIndices.push(i);
+              }
+
+              var maxLag = Math.floor(MAX_LATENCY_SEC * CALIBRATION_RATE);
+              var bestLag = 0, bestValue = 0, total = 0;
+              for (var lag = 0; lag < maxLag; lag++) {
+                var sum = 0;
+                for (var k = 0; k < clickIndices.length; k++) {
+                  var index = clickIndices[k];
+                  if (index + lag < recording.length) sum += click[index] * recording[index + lag];
+                }
+                var value = Math.abs(sum);
+                total += value;
+                if (value > bestValue) {
+                  bestValue = value;
+                  bestLag = lag;
+                }
+              }
+
+              var confidence = total > 0 ? bestValue / (total / maxLag) : 0;
+              if (confidence < MIN_CONFIDENCE) {
+                throw new Error('The clicks could not be detected. Remove headphones, turn the volume up and try again in a quiet room.');
+              }
+
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'latency',
+                data: { latencyMs: bestLag * 1000 / CALIBRATION_RATE, confidence: confidence }
+              }));
+            } catch (e) {
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'latencyError', message: e.message }));
+            }
+          };
+
+          /**
+           * Renders an offline context, reporting progress at regular points of the timeline.
+           * A cancelled job rejects at the next progress point; an offline render cannot be aborted,
+           * so the context is still resumed to finish in the background and its result is discarded.
+           */
+          function renderWithProgress(offlineCtx, job) {
+            return new Promise(function(resolve, reject) {
+              var duration = offlineCtx.length / offlineCtx.sampleRate;
+              var steps = 20;
+              if (offlineCtx.suspend) {
+                for (var i = 1; i < steps; i++) {
+                  (function(time) {
+                    offlineCtx.suspend(time).then(function() {
+                      if (job === currentJob) reportProgress('rendering', time / duration * 100);
+                      else reject(new Error('Cancelled'));
+                      offlineCtx.resume();
+                    });
+                  })(duration * i / steps);
+                }
+              }
+              reportProgress('rendering', 0);
+              offlineCtx.startRendering().then(function(buffer) {
+                if (job !== currentJob) reject(new Error('Cancelled'));
+                else resolve(buffer);
+              }, reject);
+            });
+          }
+
+          var STRETCH_FRAME = 2048;
+          var STRETCH_HOP = 1024;
+          var STRETCH_TOLERANCE = 256;
+
+          /**
+           * Changes the duration of a buffer without changing its pitch (WSOLA).
+           * Each output frame is taken from the input position, near the nominal one,
+           * that best continues the previous frame. factor > 1 makes the audio longer.
+           * Runs synchronously and cannot be cancelled, a cancel takes effect once it returns.
+           */
+          function timeStretch(ctx, buffer, factor) {
+            var channels = buffer.numberOfChannels;
+            var inLength = buffer.length;
+            var outLength = Math.floor(inLength * factor);
+            var hopIn = STRETCH_HOP / factor;
+            var overlap = STRETCH_FRAME - STRETCH_HOP;
+
+            var input = [];
+            for (var c = 0; c < channels; c++) input.push(buffer.getChannelData(c));
+
+            // Mono guide signal so all channels use the same alignment
+            var guide = new Float32Array(inLength);
+            for (var gc = 0; gc < channels; gc++) {
+              for (var g = 0; g < inLength; g++) guide[g] += input[gc][g] / channels;
+            }
+
+            var window = new Float32Array(STRETCH_FRAME);
+            for (var w = 0; w < STRETCH_FRAME; w++) window[w] = 0.5 - 0.5 * Math.cos(2 * Math.PI * w / STRETCH_FRAME);
 
-              const voiceOffset = (voiceBuffer.duration > LATENCY_COMPENSATION_SEC) ? LATENCY_COMPENSATION_SEC : 0;
+            var result = ctx.createBuffer(channels, outLength, buffer.sampleRate);
+            var output = [];
+            for (var oc = 0; oc < channels; oc++) output.push(new Float32Array(outLength + STRETCH_FRAME));
+            var norm = new Float32Array(outLength + STRETCH_FRAME);
+
+            var maxStart = inLength - STRETCH_FRAME - STRETCH_TOLERANCE;
+            var prevStart = 0;
+            for (var k = 0, outPos = 0; outPos < outLength; k++, outPos += STRETCH_HOP) {
+              var nominal = Math.round(k * hopIn);
+              var start = Math.min(Math.max(0, nominal), Math.max(0, maxStart));
+
+              if (k > 0 && maxStart > STRETCH_TOLERANCE) {
+                // Find the candidate that best matches the natural continuation of the previous frame
+                var target = prevStart + STRETCH_HOP;
+                var bestScore = -Infinity;
+                var from = Math.max(0, start - STRETCH_TOLERANCE);
+                var to = Math.min(maxStart, start + STRETCH_TOLERANCE);
+                for (var candidate = from; candidate <= to; candidate += 2) {
+                  var score = 0;
+                  for (var j = 0; j < overlap; j += 4) score += guide[candidate + j] * guide[target + j];
+                  if (score > bestScore) {
+                    bestScore = score;
+                    start = candidate;
+                  }
+                }
+              }
+
+              for (var ch = 0; ch < channels; ch++) {
+                var source = input[ch];
+                var target2 = output[ch];
+                for (var i = 0; i < STRETCH_FRAME && start + i < inLength; i++) {
+                  target2[outPos + i] += source[start + i] * window[i];
+                }
+              }
+              for (var n = 0; n < STRETCH_FRAME; n++) norm[outPos + n] += window[n];
+              prevStart = start;
+            }
+
+            for (var rc = 0; rc < channels; rc++) {
+              var data = result.getChannelData(rc);
+              var raw = output[rc];
+              for (var r = 0; r < outLength; r++) data[r] = norm[r] > 0.001 ? raw[r] / norm[r] : 0;
+            }
+            return result;
+          }
+
+          /**
+           * Renders the backing track in another key and/or tempo.
+           * The track is first stretched by pitch/tempo, then resampled by the pitch factor,
+           * which restores the duration for the pitch part and shifts the key.
+           * Exposed to React Native.
+           */
+          window.transposeTrack = async function(songId, settings) {
+            var job = ++currentJob;
+            try {
+              reportProgress('decoding', null);
+              const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
+              const songBuffer = await audioCtx.decodeAudioData(takeTransfer(songId));
+              checkJob(job);
+
+              var pitch = Math.pow(2, settings.semitones / 12);
+              var stretch = pitch / settings.tempo;
+              reportProgress('rendering', null);
+              var result = Math.abs(stretch - 1) > 0.001 ? timeStretch(audioCtx, songBuffer, stretch) : songBuffer;
+              audioCtx.close();
+              checkJob(job);
+
+              if (settings.semitones !== 0) {
+                var offlineCtx = new (window.OfflineAudioContext || window.webkitOfflineAudioContext)(
+                  result.numberOfChannels,
+                  Math.floor(result.length / pitch),
+                  result.sampleRate
+                );
+                var source = offlineCtx.createBufferSource();
+                source.buffer = result;
+                source.playbackRate.value = pitch;
+                source.connect(offlineCtx.destination);
+                source.start(0);
+                result = await renderWithProgress(offlineCtx, job);
+              }
+
+              reportProgress('encoding', null);
+              var blob = new Blob([encodeWAV(result, 16)], { type: 'audio/wav' });
+              result = null;
+              if (window.gc) window.gc();
+
+              const transfer = await sendBlob(blob, job);
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'transposed', transferId: transfer.transferId, chunkCount: transfer.chunkCount
+              }));
+            } catch (e) {
+              if (job !== currentJob) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'transposeError',
+                message: 'Transpose error: ' + e.message
+              }));
+            }
+          };
+
+          var VOCAL_LOW_HZ = 200; // Centered content below this (bass, kick) is kept
+          var VOCAL_HIGH_HZ = 6000; // Centered content above this (hi-hats, air) is kept
+
+          // Original song decoded for the vocal removal and its running A/B preview
+          var vocalSource = null;
+          var vocalPreview = null;
+
+          /**
+           * Connects two cascaded biquad filters of the same type (a steeper slope than one).
+           */
+          function connectFilterPair(ctx, input, type, frequency) {
+            var first = ctx.createBiquadFilter();
+            var second = ctx.createBiquadFilter();
+            first.type = second.type = type;
+            first.frequency.value = second.frequency.value = frequency;
+            input.connect(first);
+            first.connect(second);
+            return second;
+          }
+
+          /**
+           * Builds the vocal removal graph for a stereo source.
+           * The song is split into mid (L+R, where lead vocals sit) and side (L-R).
+           * Only the vocal band of the mid signal is faded out by the strength,
+           * so the centered bass and the highs stay in; the side signal is untouched.
+           * Returns the output node and the gains controlled by the strength.
+           */
+          function buildVocalRemoval(ctx, input, strength) {
+            var splitter = ctx.createChannelSplitter(2);
+            input.connect(splitter);
+
+            var mid = ctx.createGain();
+            var side = ctx.createGain();
+            var leftMid = ctx.createGain();
+            var rightMid = ctx.createGain();
+            var leftSide = ctx.createGain();
+            var rightSide = ctx.createGain();
+            leftMid.gain.value = 0.5;
+            rightMid.gain.value = 0.5;
+            leftSide.gain.value = 0.5;
+            rightSide.gain.value = -0.5;
+            splitter.connect(leftMid, 0);
+            splitter.connect(rightMid, 1);
+            splitter.connect(leftSide, 0);
+            splitter.connect(rightSide, 1);
+            leftMid.connect(mid);
+            rightMid.connect(mid);
+            leftSide.connect(side);
+            rightSide.connect(side);
+
+            // Mid without the vocal band: the lows plus the highs
+            var keep = ctx.createGain();
+            connectFilterPair(ctx, mid, 'lowpass', VOCAL_LOW_HZ).connect(keep);
+            connectFilterPair(ctx, mid, 'highpass', VOCAL_HIGH_HZ).connect(keep);
+
+            // The strength blends from the full mid to the band-limited mid
+            var dryMid = ctx.createGain();
+            var removedMid = ctx.createGain();
+            dryMid.gain.value = 1 - strength;
+            removedMid.gain.value = strength;
+            mid.connect(dryMid);
+            keep.connect(removedMid);
+
+            // Left = mid + side, right = mid - side
+            var invertedSide = ctx.createGain();
+            invertedSide.gain.value = -1;
+            side.connect(invertedSide);
+
+            var merger = ctx.createChannelMerger(2);
+            dryMid.connect(merger, 0, 0);
+            dryMid.connect(merger, 0, 1);
+            removedMid.connect(merger, 0, 0);
+            removedMid.connect(merger, 0, 1);
+            side.connect(merger, 0, 0);
+            invertedSide.connect(merger, 0, 1);
+
+            return { output: merger, dryMid: dryMid, removedMid: removedMid };
+          }
+
+          /**
+           * Decodes the original song for the vocal removal.
+           * Exposed to React Native.
+           */
+          window.loadVocalSource = async function(songId) {
+            var job = ++currentJob;
+            try {
+              window.stopVocalPreview();
+              vocalSource = null;
+
+              reportProgress('decoding', null);
+              const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
+              const buffer = await audioCtx.decodeAudioData(takeTransfer(songId));
+              audioCtx.close();
+              checkJob(job);
+
+              if (buffer.numberOfChannels < 2) {
+                throw new Error('The song is mono, vocals can only be removed from stereo recordings');
+              }
+              vocalSource = buffer;
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'vocalSourceReady' }));
+            } catch (e) {
+              if (job !== currentJob) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'vocalsError', message: e.message }));
+            }
+          };
+
+          /**
+           * Plays the original (A) or the song without vocals (B) from a position in seconds.
+           * Both versions run in sync, so switching between them is seamless.
+           * A context that cannot be resumed ends the preview with the error.
+           * Exposed to React Native.
+           */
+          window.startVocalPreview = function(settings, processed, position) {
+            window.stopVocalPreview();
+            if (!vocalSource) return;
+
+            var ctx = new (window.AudioContext || window.webkitAudioContext)();
+            ctx.resume().catch(function(e) {
+              if (!vocalPreview || vocalPreview.ctx !== ctx) return;
+              window.stopVocalPreview();
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'vocalPreviewEnded', message: 'Preview could not start: ' + e.message
+              }));
+            });
+            var source = ctx.createBufferSource();
+            source.buffer = vocalSource;
+
+            var original = ctx.createGain();
+            var removal = buildVocalRemoval(ctx, source, settings.strength);
+            var without = ctx.createGain();
+            original.gain.value = processed ? 0 : 1;
+            without.gain.value = processed ? 1 : 0;
+            source.connect(original);
+            removal.output.connect(without);
+            original.connect(ctx.destination);
+            without.connect(ctx.destination);
+
+            source.onended = function() {
+              if (!vocalPreview || vocalPreview.source !== source) return;
+              window.stopVocalPreview();
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'vocalPreviewEnded' }));
+            };
+            source.start(0, Math.max(0, Math.min(position || 0, vocalSource.duration)));
+            vocalPreview = { ctx: ctx, source: source, original: original, without: without, removal: removal };
+          };
+
+          /**
+           * Switches between A and B and applies a new strength while the preview plays.
+           * Exposed to React Native.
+           */
+          window.updateVocalPreview = function(settings, processed) {
+            if (!vocalPreview) return;
+            var now = vocalPreview.ctx.currentTime;
+            vocalPreview.original.gain.setTargetAtTime(processed ? 0 : 1, now, 0.02);
+            vocalPreview.without.gain.setTargetAtTime(processed ? 1 : 0, now, 0.02);
+            vocalPreview.removal.dryMid.gain.setTargetAtTime(1 - settings.strength, now, 0.05);
+            vocalPreview.removal.removedMid.gain.setTargetAtTime(settings.strength, now, 0.05);
+          };
+
+          /**
+           * Stops the A/B preview.
+           * Exposed to React Native.
+           */
+          window.stopVocalPreview = function() {
+            if (!vocalPreview) return;
+            var current = vocalPreview;
+            vocalPreview = null;
+            try {
+              current.source.stop();
+            } catch (e) {}
+            current.ctx.close();
+          };
+
+          /**
+           * Renders the whole song without vocals and sends it back as a stereo WAV.
+           * Exposed to React Native.
+           */
+          window.removeVocals = async function(settings) {
+            var job = ++currentJob;
+            try {
+              if (!vocalSource) throw new Error('No song loaded');
+              window.stopVocalPreview();
+
+              var offlineCtx = new (window.OfflineAudioContext || window.webkitOfflineAudioContext)(
+                2,
+                vocalSource.length,
+                vocalSource.sampleRate
+              );
+              var source = offlineCtx.createBufferSource();
+              source.buffer = vocalSource;
+              buildVocalRemoval(offlineCtx, source, settings.strength).output.connect(offlineCtx.destination);
+              source.start(0);
+
+              var result = await renderWithProgress(offlineCtx, job);
+              checkJob(job);
+
+              reportProgress('encoding', null);
+              var blob = new Blob([encodeWAV(result, 16)], { type: 'audio/wav' });
+              result = null;
+              if (window.gc) window.gc();
+
+              const transfer = await sendBlob(blob, job);
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'vocalsRemoved', transferId: transfer.transferId, chunkCount: transfer.chunkCount
+              }));
+            } catch (e) {
+              if (job !== currentJob) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'vocalsError',
+                message: 'Vocal removal error: ' + e.message
+              }));
+            }
+          };
+
+          /**
+           * Drops the decoded original song.
+           * Exposed to React Native.
+           */
+          window.releaseVocalSource = function() {
+            window.stopVocalPreview();
+            vocalSource = null;
+          };
+
+          var DEFAULT_LATENCY_SEC = 0.160; // Used until the device has been calibrated
+          var COMP_CROSSFADE_SEC = ${COMP_CROSSFADE_MS / 1000}; // Crossfade between takes at section boundaries
+
+          // Decoded audio of the current performance, kept for previews and re-renders
+          var session = null;
+          var preview = null;
+
+          /**
+           * Returns how far into the recording the voice has to start so it lines up with the song.
+           * Negative values mean the voice starts after the song.
+           */
+          function getVoiceSkip(settings) {
+            var latencySec = (typeof session.options.latencyMs === 'number') ? session.options.latencyMs / 1000 : DEFAULT_LATENCY_SEC;
+            if (session.voiceBuffer.duration <= latencySec) latencySec = 0;
+            return latencySec - (settings.voiceOffsetMs || 0) / 1000;
+          }
+
+          /**
+           * Lays out a recording that was paused on the song timeline.
+           * Each segment is moved to the song position where the session was resumed,
+           * which removes the drift between player and recorder at every pause.
+           */
+          function alignVoiceSegments(ctx, voiceBuffer, segments) {
+            if (!segments || segments.length < 2) return voiceBuffer;
+
+            var rate = voiceBuffer.sampleRate;
+            var ranges = [];
+            var length = 0;
+            for (var k = 0; k < segments.length; k++) {
+              var from = Math.min(voiceBuffer.length, Math.floor(segments[k].voiceMs / 1000 * rate));
+              var to = k + 1 < segments.length
+                ? Math.min(voiceBuffer.length, Math.floor(segments[k + 1].voiceMs / 1000 * rate))
+                : voiceBuffer.length;
+              var target = Math.max(0, Math.floor(segments[k].songMs / 1000 * rate));
+              if (to <= from) continue;
+              ranges.push({ from: from, to: to, target: target });
+              length = Math.max(length, target + to - from);
+            }
+
+            var aligned = ctx.createBuffer(voiceBuffer.numberOfChannels, Math.max(1, length), rate);
+            for (var c = 0; c < voiceBuffer.numberOfChannels; c++) {
+              var input = voiceBuffer.getChannelData(c);
+              var output = aligned.getChannelData(c);
+              for (var r = 0; r < ranges.length; r++) {
+                output.set(input.subarray(ranges[r].from, ranges[r].to), ranges[r].target);
+              }
+            }
+            return aligned;
+          }
+
+          /**
+           * Assembles one vocal from several aligned takes.
+           * Each region plays its take; at the boundaries the takes are crossfaded
+           * with equal-power curves. The regions are on the song timeline, the
+           * offset moves them onto the recording timeline.
+           */
+          function compTakes(takes, comp, offsetSec) {
+            if (takes.length === 1 || !comp || comp.length === 0) return takes[comp && comp.length ? comp[0].take : 0] || takes[0];
+
+            var rate = takes[0].sampleRate;
+            var channels = takes[0].numberOfChannels;
+            var length = 1;
+            for (var t = 0; t < takes.length; t++) length = Math.max(length, takes[t].length);
+
+            var ctx = new OfflineAudioContext(channels, 1, rate);
+            var output = ctx.createBuffer(channels, length, rate);
+            var half = Math.floor(COMP_CROSSFADE_SEC * rate / 2);
+            var starts = comp.map(function(region, index) {
+              if (index === 0) return 0;
+              return Math.max(0, Math.min(length, Math.round((region.startMs / 1000 + offsetSec) * rate)));
+            });
+
+            for (var r = 0; r < comp.length; r++) {
+              var take = takes[comp[r].take] || takes[0];
+              var start = starts[r];
+              var end = r + 1 < comp.length ? starts[r + 1] : length;
+              var fadeIn = r > 0 ? half : 0;
+              var fadeOut = r + 1 < comp.length ? half : 0;
+              var from = Math.max(0, start - fadeIn);
+              var to = Math.min(take.length, end + fadeOut);
+
+              for (var c = 0; c < channels; c++) {
+                var input = take.getChannelData(Math.min(c, take.numberOfChannels - 1));
+                var data = output.getChannelData(c);
+                for (var i = from; i < to; i++) {
+                  var gain = 1;
+                  if (fadeIn && i < start + fadeIn) gain = Math.sin(Math.PI / 2 * (i - (start - fadeIn)) / (2 * fadeIn));
+                  else if (fadeOut && i >= end - fadeOut) gain = Math.cos(Math.PI / 2 * (i - (end - fadeOut)) / (2 * fadeOut));
+                  data[i] += input[i] * gain;
+                }
+              }
+            }
+            return output;
+          }
+
+          /**
+           * Starts the voice source at a song position, honoring the voice skip.
+           */
+          function startVoice(source, when, songPosition, skip) {
+            var voicePosition = songPosition + skip;
+            if (voicePosition >= 0) source.start(when, voicePosition);
+            else source.start(when - voicePosition, 0);
+          }
+
+          /**
+           * Generates a synthetic reverb impulse response: decaying stereo noise,
+           * darkened by a one-pole lowpass and shifted by the pre-delay.
+           */
+          function createImpulseResponse(ctx, reverb) {
+            var rate = ctx.sampleRate;
+            var preDelay = Math.floor(reverb.preDelaySec * rate);
+            var length = preDelay + Math.floor(reverb.decaySec * rate);
+            var impulse = ctx.createBuffer(2, length, rate);
+            var smoothing = Math.exp(-2 * Math.PI * reverb.dampingHz / rate);
+
+            for (var channel = 0; channel < 2; channel++) {
+              var data = impulse.getChannelData(channel);
+              var last = 0;
+              for (var i = preDelay; i < length; i++) {
+                var t = (i - preDelay) / rate;
+                var noise = Math.random() * 2 - 1;
+                last = (1 - smoothing) * noise + smoothing * last;
+                // -60 dB at decaySec
+                data[i] = last * Math.exp(-6.9 * t / reverb.decaySec);
+              }
+            }
+            return impulse;
+          }
+
+          /**
+           * Connects the voice effects chain (high-pass, EQ, compressor, reverb)
+           * between the input node and the destination.
+           */
+          function connectVoiceEffects(ctx, input, destination, effect) {
+            var node = input;
+            if (!effect) {
+              node.connect(destination);
+              return;
+            }
+
+            if (effect.highPassHz > 0) {
+              var highPass = ctx.createBiquadFilter();
+              highPass.type = 'highpass';
+              highPass.frequency.value = effect.highPassHz;
+              highPass.Q.value = 0.707;
+              node.connect(highPass);
+              node = highPass;
+            }
+
+            (effect.eq || []).forEach(function(band) {
+              var peaking = ctx.createBiquadFilter();
+              peaking.type = 'peaking';
+              peaking.frequency.value = band.frequency;
+              peaking.gain.value = band.gainDb;
+              peaking.Q.value = band.q;
+              node.connect(peaking);
+              node = peaking;
+            });
+
+            if (effect.compressor) {
+              var compressor = ctx.createDynamicsCompressor();
+              compressor.threshold.value = effect.compressor.thresholdDb;
+              compressor.ratio.value = effect.compressor.ratio;
+              compressor.knee.value = effect.compressor.kneeDb;
+              compressor.attack.value = effect.compressor.attackSec;
+              compressor.release.value = effect.compressor.releaseSec;
+              var makeup = ctx.createGain();
+              makeup.gain.value = Math.pow(10, effect.compressor.makeupDb / 20);
+              node.connect(compressor);
+              compressor.connect(makeup);
+              node = makeup;
+            }
+
+            if (effect.reverb && effect.reverb.wet > 0) {
+              var dry = ctx.createGain();
+              dry.gain.value = 1 - effect.reverb.wet;
+              var convolver = ctx.createConvolver();
+              convolver.buffer = createImpulseResponse(ctx, effect.reverb);
+              var wet = ctx.createGain();
+              wet.gain.value = effect.reverb.wet;
+              node.connect(dry);
+              node.connect(convolver);
+              convolver.connect(wet);
+              dry.connect(destination);
+              wet.connect(destination);
+            } else {
+              node.connect(destination);
+            }
+          }
+
+          /**
+           * Builds the song and voice graph of a context.
+           * Shared by the live preview and the offline render so both sound the same.
+           */
+          function buildMixGraph(ctx, settings) {
+            var songSource = ctx.createBufferSource();
+            songSource.buffer = session.songBuffer;
+            var songGain = ctx.createGain();
+            songGain.gain.value = settings.musicVolume;
+            songSource.connect(songGain);
+            songGain.connect(ctx.destination);
+
+            var voiceSource = ctx.createBufferSource();
+            voiceSource.buffer = session.voiceBuffer;
+            var voiceGain = ctx.createGain();
+            voiceGain.gain.value = settings.voiceVolume;
+            voiceSource.connect(voiceGain);
+            connectVoiceEffects(ctx, voiceGain, ctx.destination, settings.effect);
+
+            return { songSource: songSource, songGain: songGain, voiceSource: voiceSource, voiceGain: voiceGain };
+          }
+
+          /**
+           * Decodes the performance, analyzes the sung pitch and keeps the buffers for mixing.
+           * Exposed to React Native.
+           */
+          window.loadSession = async function(songId, voiceIds, options, segments, comp) {
+            var job = ++currentJob;
+            try {
+              window.stopPreview();
+              session = null;
+
+              reportProgress('decoding', 0);
+              const audioCtx = new (window.AudioContext || window.webkitAudioContext)();
+              const songBuffer = await audioCtx.decodeAudioData(takeTransfer(songId));
+              const takes = [];
+              for (var t = 0; t < voiceIds.length; t++) {
+                reportProgress('decoding', Math.round((t + 1) / (voiceIds.length + 1) * 100));
+                var decoded = await audioCtx.decodeAudioData(takeTransfer(voiceIds[t]));
+                takes.push(alignVoiceSegments(audioCtx, decoded, segments[t]));
+                checkJob(job);
+              }
+              audioCtx.close();
+              checkJob(job);
+
+              session = { songBuffer: songBuffer, takes: takes, voiceBuffer: takes[0], options: options || {} };
+              session.voiceBuffer = compTakes(takes, comp, getVoiceSkip({}));
+
+              reportProgress('decoding', 100);
+              await analyzePitch(session.voiceBuffer, getVoiceSkip({}));
+              checkJob(job);
+
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'ready' }));
+            } catch (e) {
+              if (job !== currentJob) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'error',
+                message: 'Decode error: ' + e.message
+              }));
+            }
+          };
+
+          /**
+           * Plays the mix in real time from a song position (seconds).
+           * A new context may start suspended, it is resumed and a failure ends the preview with the error.
+           */
+          window.startPreview = function(settings, position) {
+            if (!session) return;
+            window.stopPreview();
+
+            var ctx = new (window.AudioContext || window.webkitAudioContext)();
+            ctx.resume().catch(function(e) {
+              if (!preview || preview.ctx !== ctx) return;
+              window.stopPreview();
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'previewEnded', message: 'Preview could not start: ' + e.message
+              }));
+            });
+            var graph = buildMixGraph(ctx, settings);
+            var now = ctx.currentTime + 0.05;
+            graph.songSource.start(now, position);
+            startVoice(graph.voiceSource, now, position, getVoiceSkip(settings));
+            graph.songSource.onended = function() {
+              if (preview && preview.ctx === ctx) {
+                window.stopPreview();
+                window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'previewEnded' }));
+              }
+            };
+
+            preview = { ctx: ctx, graph: graph, startedAt: now, position: position, settings: settings };
+          };
+
+          /**
+           * Applies changed settings to the running preview.
+           * Levels glide to the new value, a changed offset restarts the voice in place
+           * and a changed effect preset restarts the whole preview.
+           */
+          window.updatePreview = function(settings) {
+            if (!preview) return;
+            var ctx = preview.ctx;
+
+            // A different effects chain needs a new graph, restart in place
+            if (settings.effectPreset !== preview.settings.effectPreset) {
+              var position = preview.position + Math.max(0, ctx.currentTime - preview.startedAt);
+              window.startPreview(settings, position);
+              return;
+            }
+
+            var graph = preview.graph;
+            graph.songGain.gain.setTargetAtTime(settings.musicVolume, ctx.currentTime, 0.05);
+            graph.voiceGain.gain.setTargetAtTime(settings.voiceVolume, ctx.currentTime, 0.05);
+
+            if (settings.voiceOffsetMs !== preview.settings.voiceOffsetMs) {
+              var songPosition = preview.position + Math.max(0, ctx.currentTime - preview.startedAt);
+              graph.voiceSource.stop();
+              graph.voiceSource.disconnect();
+
+              var voiceSource = ctx.createBufferSource();
+              voiceSource.buffer = session.voiceBuffer;
+              voiceSource.connect(graph.voiceGain);
+              startVoice(voiceSource, ctx.currentTime, songPosition, getVoiceSkip(settings));
+              graph.voiceSource = voiceSource;
+            }
+            preview.settings = settings;
+          };
+
+          /**
+           * Stops the live preview.
+           */
+          window.stopPreview = function() {
+            if (!preview) return;
+            var current = preview;
+            preview = null;
+            try {
+              current.graph.songSource.stop();
+              current.graph.voiceSource.stop();
+            } catch (e) {}
+            current.ctx.close();
+          };
+
+          /**
+           * Reassembles the vocal of the loaded takes and analyzes it again.
+           * Exposed to React Native.
+           */
+          window.setComp = async function(comp) {
+            var job = ++currentJob;
+            try {
+              if (!session) throw new Error('No session loaded');
+              window.stopPreview();
+
+              var voiceBuffer = compTakes(session.takes, comp, getVoiceSkip({}));
+              checkJob(job);
+              session.voiceBuffer = voiceBuffer;
+
+              await analyzePitch(voiceBuffer, getVoiceSkip({}));
+              checkJob(job);
+
+              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'ready' }));
+            } catch (e) {
+              if (job !== currentJob) return;
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'error',
+                message: 'Comp error: ' + e.message
+              }));
+            }
+          };
+
+          /**
+           * Drops the decoded performance.
+           */
+          window.releaseSession = function() {
+            window.stopPreview();
+            session = null;
+          };
+
+          /**
+           * Main mixing function exposed to React Native.
+           * Mixes the loaded performance with latency compensation, the chosen levels
+           * and the voice effects chain, and renders to WAV.
+           */
+          window.mixAudio = async function(settings) {
+            var job = ++currentJob;
+            try {
+              if (!session) throw new Error('No performance loaded');
+              window.stopPreview();
+
+              const profile = settings.output;
+              const TARGET_RATE = profile.sampleRate;
+              const TARGET_CHANNELS = profile.channels;
+
+              const songBuffer = session.songBuffer;
+              const voiceBuffer = session.voiceBuffer;
+              const voiceSkip = getVoiceSkip(settings);
 
               const resamplingRatio = TARGET_RATE / songBuffer.sampleRate;
               const maxOriginalLength = Math.max(songBuffer.length, voiceBuffer.length);
@@ -139,42 +1584,45 @@ export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComp
                 TARGET_RATE
               );
 
-              // Setup Song Source
-              const songSource = offlineCtx.createBufferSource();
-              songSource.buffer = songBuffer;
-              const songGain = offlineCtx.createGain();
-              songGain.gain.value = 0.7; // Song Volume
-              songSource.connect(songGain);
-              songGain.connect(offlineCtx.destination);
-
-              // Setup Voice Source
-              const voiceSource = offlineCtx.createBufferSource();
-              voiceSource.buffer = voiceBuffer;
-              const voiceGain = offlineCtx.createGain();
-              // !!! UPDATE: Increased volume to 3.0 (louder voice) !!!
-              voiceGain.gain.value = 3.0; 
-              
-              voiceSource.connect(voiceGain);
-              voiceGain.connect(offlineCtx.destination);
+              const graph = buildMixGraph(offlineCtx, settings);
 
               // Schedule playback
-              songSource.start(0);
-              voiceSource.start(0, voiceOffset);
+              graph.songSource.start(0);
+              startVoice(graph.voiceSource, 0, 0, voiceSkip);
 
               // Render
-              const renderedBuffer = await offlineCtx.startRendering();
+              const renderedBuffer = await renderWithProgress(offlineCtx, job);
+              checkJob(job);
+
+              const format = settings.format;
+              reportProgress('encoding', format.recorderMimeType ? 0 : null);
+              let formatId = format.id;
+              let blob = null;
+              if (format.recorderMimeType) {
+                try {
+                  blob = await encodeCompressed(renderedBuffer, format.recorderMimeType, profile.compressedBitrate, job);
+                } catch (e) {
+                  checkJob(job);
+                  // The render is done, so a failed encoder still delivers the mix as WAV
+                  window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'log', message: 'Compressed encoding failed, saving WAV: ' + e.message }));
+                  reportProgress('encoding', null);
+                }
+              }
+              if (!blob) {
+                formatId = 'wav';
+                blob = new Blob([encodeWAV(renderedBuffer, profile.bitDepth)], { type: 'audio/wav' });
+              }
 
-              const monoData = renderedBuffer.getChannelData(0);
-              const wavBuffer = encodeWAVMono(monoData, TARGET_RATE);
-              const blob = new Blob([wavBuffer], { type: 'audio/wav' });
-              
               if (window.gc) window.gc();
 
-              const finalBase64 = await blobToBase64(blob);
-              
-              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'success', data: finalBase64 }));
+              const transfer = await sendBlob(blob, job);
+
+              window.ReactNativeWebView.postMessage(JSON.stringify({
+                type: 'success', transferId: transfer.transferId, chunkCount: transfer.chunkCount, formatId: formatId
+              }));
               
             } catch (e) {
+              if (job !== currentJob) return;
               window.ReactNativeWebView.postMessage(JSON.stringify({ 
                 type: 'error', 
                 message: 'Mix error: ' + e.message 
@@ -194,8 +1642,54 @@ export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComp
         onMessage={(event) => {
           try {
             const data = JSON.parse(event.nativeEvent.data);
-            if (data.type === 'success') {
-              onMixComplete(data.data);
+            if (data.type === 'ack') {
+              pendingAcksRef.current.get(`${data.id}:${data.seq}`)?.ack();
+              pendingAcksRef.current.delete(`${data.id}:${data.seq}`);
+            } else if (data.type === 'chunk') {
+              receiveChunk(data.id, data.seq, data.data);
+            } else if (data.type === 'progress') {
+              onProgress({ stage: data.stage, percent: data.percent });
+            } else if (data.type === 'ready') {
+              onSessionReady();
+            } else if (data.type === 'previewEnded') {
+              onPreviewEnded(data.message);
+            } else if (data.type === 'success') {
+              try {
+                onMixComplete(takeTransfer(data.transferId, data.chunkCount), data.formatId);
+              } catch (e: any) {
+                onError(e.message);
+              }
+            } else if (data.type === 'pitch') {
+              onPitchAnalysis(data.data);
+            } else if (data.type === 'latency') {
+              onLatencyMeasured(data.data);
+            } else if (data.type === 'latencyError') {
+              onLatencyError(data.message);
+            } else if (data.type === 'transposed') {
+              try {
+                transposeRef.current?.resolve(takeTransfer(data.transferId, data.chunkCount));
+              } catch (e: any) {
+                transposeRef.current?.reject(e);
+              }
+              transposeRef.current = null;
+            } else if (data.type === 'transposeError') {
+              transposeRef.current?.reject(new Error(data.message));
+              transposeRef.current = null;
+            } else if (data.type === 'vocalSourceReady') {
+              vocalsRef.current?.resolve('');
+              vocalsRef.current = null;
+            } else if (data.type === 'vocalsRemoved') {
+              try {
+                vocalsRef.current?.resolve(takeTransfer(data.transferId, data.chunkCount));
+              } catch (e: any) {
+                vocalsRef.current?.reject(e);
+              }
+              vocalsRef.current = null;
+            } else if (data.type === 'vocalsError') {
+              vocalsRef.current?.reject(new Error(data.message));
+              vocalsRef.current = null;
+            } else if (data.type === 'vocalPreviewEnded') {
+              onVocalPreviewEnded(data.message);
             } else if (data.type === 'error') {
               onError(data.message);
             } else if (data.type === 'log') {
@@ -207,7 +1701,9 @@ export const AudioMixer: React.FC<Props> = ({ songBase64, voiceBase64, onMixComp
         }}
         javaScriptEnabled={true}
         originWhitelist={['*']}
+        mediaPlaybackRequiresUserAction={false}
+        allowsInlineMediaPlayback={true}
       />
     </View>
   );
-};
\ No newline at end of file
+});
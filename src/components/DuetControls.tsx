@@ -0,0 +1,118 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DuetSetup, DuetSinger, PART_COLORS } from '../utils/duet';
+
+/**
+ * Props for the DuetControls component.
+ */
+interface Props {
+  setup: DuetSetup;
+  onChange: (setup: DuetSetup) => void;
+}
+
+/**
+ * Duet setup shown before a session of a song with duet parts:
+ * turns the duet on, names both singers and lets them swap parts.
+ *
+ * @param setup Current duet setup
+ * @param onChange Called with the changed setup
+ */
+export const DuetControls: React.FC<Props> = ({ setup, onChange }) => {
+  const [first, second] = setup.singers;
+
+  const rename = (index: 0 | 1, name: string) => {
+    const singers: [DuetSinger, DuetSinger] = [...setup.singers];
+    singers[index] = { ...singers[index], name };
+    onChange({ ...setup, singers });
+  };
+
+  const swapParts = () => {
+    onChange({
+      ...setup,
+      singers: [{ ...first, part: second.part }, { ...second, part: first.part }]
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Ionicons name="people" size={18} color="#fff" style={{ marginRight: 8 }} />
+        <Text style={styles.label}>Duet</Text>
+        <Switch
+          value={setup.enabled}
+          onValueChange={(enabled) => onChange({ ...setup, enabled })}
+          trackColor={{ true: '#FFD740', false: 'rgba(255,255,255,0.3)' }}
+        />
+      </View>
+
+      {setup.enabled && (
+        <View style={styles.row}>
+          {setup.singers.map((singer, index) => (
+            <View key={index} style={[styles.singer, { borderColor: PART_COLORS[singer.part] }]}>
+              <Text style={[styles.part, { color: PART_COLORS[singer.part] }]}>Part {singer.part}</Text>
+              <TextInput
+                style={styles.nameInput}
+                value={singer.name}
+                onChangeText={(name) => rename(index as 0 | 1, name)}
+                placeholder={`Singer ${index + 1}`}
+                placeholderTextColor="rgba(255,255,255,0.4)"
+              />
+            </View>
+          ))}
+          <TouchableOpacity style={styles.swapButton} onPress={swapParts}>
+            <Ionicons name="swap-horizontal" size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginBottom: 25,
+    width: '85%',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+    gap: 8,
+  },
+  label: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  singer: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  part: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  nameInput: {
+    color: '#fff',
+    fontSize: 14,
+    paddingVertical: 2,
+  },
+  swapButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { DuetCoverage, PART_COLORS } from '../utils/duet';
+
+/**
+ * Props for the DuetCoverageCard component.
+ */
+interface Props {
+  coverage: DuetCoverage[];
+}
+
+/**
+ * Shows how many of their lines each duet singer covered, with the average score of those lines.
+ *
+ * @param coverage Coverage per singer
+ */
+export const DuetCoverageCard: React.FC<Props> = ({ coverage }) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>DUET</Text>
+      {coverage.map(({ singer, totalLines, sungLines, score }) => {
+        const percent = totalLines > 0 ? Math.round(sungLines / totalLines * 100) : 0;
+        const color = PART_COLORS[singer.part];
+        return (
+          <View key={singer.part} style={styles.singerRow}>
+            <View style={styles.nameRow}>
+              <Text style={[styles.name, { color }]}>{singer.name}</Text>
+              <Text style={styles.detail}>
+                {sungLines}/{totalLines} lines{score !== null ? ` · score ${score}` : ''}
+              </Text>
+            </View>
+            <View style={styles.barTrack}>
+              <View style={[styles.barFill, { width: `${percent}%`, backgroundColor: color }]} />
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  label: {
+    color: '#B0BEC5',
+    fontWeight: 'bold',
+    letterSpacing: 3,
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  singerRow: {
+    marginTop: 8,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  detail: {
+    color: '#B0BEC5',
+    fontSize: 12,
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+  },
+});
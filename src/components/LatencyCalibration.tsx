@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CalibrationStatus } from '../utils/latencyCalibration';
+
+/**
+ * Props for the LatencyCalibration component.
+ */
+interface Props {
+  status: CalibrationStatus;
+  latencyMs: number | null;
+  measuredMs: number | null;
+  error: string | null;
+  onStart: () => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Wizard screen that measures the playback/recording latency of the device.
+ *
+ * @param status Current step of the calibration
+ * @param latencyMs Stored latency of this device
+ * @param measuredMs Result of the last measurement
+ * @param error Error message of a failed measurement
+ * @param onStart Starts a measurement
+ * @param onSave Stores the measured value
+ * @param onClose Leaves the wizard
+ */
+export const LatencyCalibration: React.FC<Props> = ({ status, latencyMs, measuredMs, error, onStart, onSave, onClose }) => {
+  const isBusy = status === 'recording' || status === 'analyzing';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.heroIcon}>
+        <Ionicons name="timer-outline" size={54} color="#FFD740" />
+      </View>
+      <Text style={styles.title}>Sync Calibration</Text>
+      <Text style={styles.instruction}>
+        Remove your headphones and turn the volume up. The phone will play a few clicks and listen to them
+        to measure how late your voice arrives in the recording.
+      </Text>
+
+      <Text style={styles.current}>
+        Current: {latencyMs !== null ? `${latencyMs} ms` : 'not calibrated (160 ms default)'}
+      </Text>
+
+      {status === 'recording' && (
+        <View style={styles.statusRow}>
+          <ActivityIndicator color="#FFD740" />
+          <Text style={styles.statusText}>Listening to the clicks...</Text>
+        </View>
+      )}
+      {status === 'analyzing' && (
+        <View style={styles.statusRow}>
+          <ActivityIndicator color="#FFD740" />
+          <Text style={styles.statusText}>Measuring offset...</Text>
+        </View>
+      )}
+      {status === 'done' && measuredMs !== null && (
+        <Text style={styles.result}>{Math.round(measuredMs)} ms</Text>
+      )}
+      {status === 'error' && error && (
+        <Text style={styles.error}>{error}</Text>
+      )}
+
+      {status === 'done' ? (
+        <TouchableOpacity style={styles.primaryButton} onPress={onSave}>
+          <Text style={styles.primaryText}>Save for this Device</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.primaryButton, isBusy && styles.disabled]}
+          onPress={onStart}
+          disabled={isBusy}
+        >
+          <Text style={styles.primaryText}>{status === 'error' ? 'Try Again' : 'Start Calibration'}</Text>
+        </TouchableOpacity>
+      )}
+
+      {status === 'done' && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={onStart}>
+          <Text style={styles.secondaryText}>Measure Again</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onClose}>
+        <Text style={styles.secondaryText}>{isBusy ? 'Cancel' : 'Back'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  heroIcon: {
+    width: 110,
+    height: 110,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 55,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 25,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 10,
+  },
+  instruction: {
+    fontSize: 15,
+    color: '#B0BEC5',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  current: {
+    color: '#fff',
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  statusText: {
+    color: '#fff',
+    marginLeft: 10,
+    fontSize: 15,
+  },
+  result: {
+    fontSize: 44,
+    fontWeight: '800',
+    color: '#FFD740',
+    marginBottom: 20,
+  },
+  error: {
+    color: '#FFAB91',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#FFD740',
+    borderRadius: 50,
+    paddingVertical: 16,
+    width: '100%',
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: '#0f0c29',
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    padding: 14,
+  },
+  secondaryText: {
+    color: '#B0BEC5',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
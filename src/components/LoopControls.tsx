@@ -0,0 +1,169 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LoopSettings, PRE_ROLL_OPTIONS, LOOP_RATE_OPTIONS } from '../utils/loopRange';
+import { formatDuration } from '../utils/songCatalog';
+
+/**
+ * Props for the LoopControls component.
+ */
+interface Props {
+  loop: LoopSettings;
+  positionMillis: number;
+  selectingLines: boolean;
+  onSetPoint: (positionMillis: number) => void;
+  onToggleSelectLines: () => void;
+  onChange: (changes: Partial<Pick<LoopSettings, 'preRollMs' | 'rate'>>) => void;
+  onClear: () => void;
+}
+
+/**
+ * A/B repeat controls of the rehearsal: set the loop points at the current position
+ * or by tapping lyric lines, and choose the pre-roll and practice speed.
+ *
+ * @param loop Current loop settings
+ * @param positionMillis Current playback position, used for the A/B points
+ * @param selectingLines Whether lyric taps select the loop lines
+ * @param onSetPoint Sets point A, or point B when A is already set
+ * @param onToggleSelectLines Switches the line selection on or off
+ * @param onChange Called with a changed pre-roll or speed
+ * @param onClear Removes the loop
+ */
+export const LoopControls: React.FC<Props> = ({
+  loop,
+  positionMillis,
+  selectingLines,
+  onSetPoint,
+  onToggleSelectLines,
+  onChange,
+  onClear
+}) => {
+  const { range, pointA } = loop;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity style={styles.pointButton} onPress={() => onSetPoint(positionMillis)}>
+          <Ionicons name="repeat" size={16} color="#0f0c29" style={{ marginRight: 6 }} />
+          <Text style={styles.pointText}>{pointA === null ? 'Set A' : 'Set B'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chip, selectingLines && styles.chipActive]}
+          onPress={onToggleSelectLines}
+        >
+          <Text style={[styles.chipText, selectingLines && styles.chipTextActive]}>Lines</Text>
+        </TouchableOpacity>
+        <Text style={styles.rangeText} numberOfLines={1}>
+          {range
+            ? `${formatDuration(range.startMs)} – ${formatDuration(range.endMs)}`
+            : pointA !== null ? `A ${formatDuration(pointA)}` : 'No loop'}
+        </Text>
+        {(range || pointA !== null) && (
+          <TouchableOpacity style={styles.clearButton} onPress={onClear}>
+            <Ionicons name="close" size={16} color="#fff" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Pre-roll</Text>
+        {PRE_ROLL_OPTIONS.map(ms => (
+          <TouchableOpacity
+            key={ms}
+            style={[styles.chip, loop.preRollMs === ms && styles.chipActive]}
+            onPress={() => onChange({ preRollMs: ms })}
+          >
+            <Text style={[styles.chipText, loop.preRollMs === ms && styles.chipTextActive]}>{ms / 1000}s</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Speed</Text>
+        {LOOP_RATE_OPTIONS.map(rate => (
+          <TouchableOpacity
+            key={rate}
+            style={[styles.chip, loop.rate === rate && styles.chipActive]}
+            onPress={() => onChange({ rate })}
+          >
+            <Text style={[styles.chipText, loop.rate === rate && styles.chipTextActive]}>{Math.round(rate * 100)}%</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {selectingLines && (
+        <Text style={styles.hint}>Tap the first and the last line of the section</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: 'rgba(0,0,0,0.25)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+    gap: 6,
+  },
+  pointButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#4FC3F7',
+  },
+  pointText: {
+    color: '#0f0c29',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  rangeText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  clearButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  label: {
+    width: 60,
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  chipActive: {
+    backgroundColor: '#4FC3F7',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#0f0c29',
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
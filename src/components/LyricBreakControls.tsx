@@ -0,0 +1,78 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LyricBreakSettings, LYRIC_BREAK_LIMITS } from '../utils/lyricBreaks';
+
+/**
+ * Props for the LyricBreakControls component.
+ */
+interface Props {
+  settings: LyricBreakSettings;
+  onChange: (changes: Partial<LyricBreakSettings>) => void;
+}
+
+/**
+ * Stepper for the shortest gap between lines that is shown as an instrumental break with a countdown.
+ *
+ * @param settings Current break settings
+ * @param onChange Called with the changed setting
+ */
+export const LyricBreakControls: React.FC<Props> = ({ settings, onChange }) => {
+  const { thresholdMs } = LYRIC_BREAK_LIMITS;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Breaks</Text>
+      <TouchableOpacity
+        style={[styles.stepButton, settings.thresholdMs <= thresholdMs.min && styles.disabled]}
+        disabled={settings.thresholdMs <= thresholdMs.min}
+        onPress={() => onChange({ thresholdMs: settings.thresholdMs - thresholdMs.step })}
+      >
+        <Ionicons name="remove" size={16} color="#fff" />
+      </TouchableOpacity>
+      <Text style={styles.value}>Gaps over {Math.round(settings.thresholdMs / 1000)} s</Text>
+      <TouchableOpacity
+        style={[styles.stepButton, settings.thresholdMs >= thresholdMs.max && styles.disabled]}
+        disabled={settings.thresholdMs >= thresholdMs.max}
+        onPress={() => onChange({ thresholdMs: settings.thresholdMs + thresholdMs.step })}
+      >
+        <Ionicons name="add" size={16} color="#fff" />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginBottom: 15,
+  },
+  label: {
+    width: 60,
+    color: '#B0BEC5',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stepButton: {
+    width: 36,
+    height: 30,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  value: {
+    width: 120,
+    textAlign: 'center',
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
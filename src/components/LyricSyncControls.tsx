@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LyricSync, DEFAULT_LYRIC_SYNC, LYRIC_SYNC_LIMITS, formatLyricSync, isIdentitySync } from '../utils/lyricSync';
+
+/**
+ * Props for the LyricSyncControls component.
+ */
+interface Props {
+  sync: LyricSync;
+  onChange: (changes: Partial<LyricSync>) => void;
+  onSyncNow: () => void;
+}
+
+/**
+ * Collapsible correction of lyrics that run early, late or drift against the song.
+ * Changes apply right away while the song plays.
+ *
+ * @param sync Current offset and stretch
+ * @param onChange Called with the changed offset or stretch
+ * @param onSyncNow Moves the lyrics so the nearest line starts at the current position
+ */
+export const LyricSyncControls: React.FC<Props> = ({ sync, onChange, onSyncNow }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { offsetMs, stretch } = LYRIC_SYNC_LIMITS;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.row} onPress={() => setExpanded(!expanded)}>
+        <Ionicons name="time-outline" size={16} color="#B0BEC5" style={{ marginRight: 6 }} />
+        <Text style={styles.title}>Lyric Sync</Text>
+        <Text style={[styles.summary, !isIdentitySync(sync) && styles.summaryActive]}>{formatLyricSync(sync)}</Text>
+        <Ionicons name={expanded ? 'chevron-down' : 'chevron-up'} size={16} color="#B0BEC5" />
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>Offset</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange({ offsetMs: sync.offsetMs - offsetMs.step })}>
+              <Text style={styles.stepText}>Earlier</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange({ offsetMs: sync.offsetMs + offsetMs.step })}>
+              <Text style={styles.stepText}>Later</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Stretch</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange({ stretch: sync.stretch - stretch.step })}>
+              <Text style={styles.stepText}>Tighter</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepButton} onPress={() => onChange({ stretch: sync.stretch + stretch.step })}>
+              <Text style={styles.stepText}>Wider</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.syncButton} onPress={onSyncNow}>
+              <Ionicons name="locate" size={16} color="#0f0c29" style={{ marginRight: 6 }} />
+              <Text style={styles.syncText}>Line Starts Now</Text>
+            </TouchableOpacity>
+            {!isIdentitySync(sync) && (
+              <TouchableOpacity style={styles.resetButton} onPress={() => onChange(DEFAULT_LYRIC_SYNC)}>
+                <Text style={styles.resetText}>Reset</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.hint}>Long-press a lyric line when it should start to sync that line.</Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(0,0,0,0.25)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+    gap: 6,
+  },
+  title: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  summary: {
+    flex: 1,
+    color: '#B0BEC5',
+    fontSize: 12,
+    textAlign: 'right',
+    fontVariant: ['tabular-nums'],
+  },
+  summaryActive: {
+    color: '#FFD740',
+  },
+  label: {
+    width: 60,
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stepButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  stepText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#4FC3F7',
+  },
+  syncText: {
+    color: '#0f0c29',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  resetButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  resetText: {
+    color: '#B0BEC5',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#B0BEC5',
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
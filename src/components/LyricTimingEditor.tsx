@@ -0,0 +1,490 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, LayoutChangeEvent } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { Song, formatDuration } from '../utils/songCatalog';
+import { LyricLine, formatTime } from '../utils/srtParser';
+import { TapMode, UNSTAMPED, NUDGE_STEP_MS, countTaps, getTapUnit } from '../utils/lyricTiming';
+
+/**
+ * Props for the LyricTimingEditor component.
+ */
+interface Props {
+  song: Song;
+  initialText: string;
+  mode: TapMode;
+  lines: LyricLine[];
+  cursor: number;
+  selectedIndex: number | null;
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  canUndo: boolean;
+  onBegin: (text: string, mode: TapMode) => void;
+  onEditText: () => void;
+  onTogglePlayback: () => void;
+  onSeek: (positionMillis: number) => void;
+  onTap: () => void;
+  onTapEnd: () => void;
+  onUndo: () => void;
+  onSelect: (index: number | null) => void;
+  onNudge: (index: number, edge: 'start' | 'end', deltaMs: number) => void;
+  onPlayFrom: (index: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shows a stamped time with tenths, or dashes while it is not tapped yet.
+ */
+const formatStamp = (ms: number): string => {
+  return ms === UNSTAMPED ? '--:--.-' : formatTime(ms).slice(3, 10).replace(',', '.');
+};
+
+/**
+ * Editor that times pasted lyrics by tapping along with the song ("tap to sync").
+ * First the lyric text is pasted, then every tap stamps the next line or word.
+ * Tapped lines can be nudged and checked before they are exported as an SRT file (Enhanced LRC when words were tapped).
+ *
+ * @param song The song being timed
+ * @param initialText Text the input starts with, e.g. the current lyrics
+ * @param mode Whether each tap stamps a line or a word
+ * @param lines The lines being timed, empty while the text is entered
+ * @param cursor Next line (or word) a tap stamps
+ * @param selectedIndex Line the nudge buttons move
+ * @param isPlaying Whether the song is playing
+ * @param positionMillis Current playback position
+ * @param durationMillis Length of the song
+ * @param canUndo Whether there is a tap or nudge to take back
+ * @param onBegin Splits the text into lines and starts tapping
+ * @param onEditText Goes back to the text, dropping the times
+ * @param onTogglePlayback Plays or pauses the song
+ * @param onSeek Jumps to a position of the song
+ * @param onTap Stamps the start of the next line or word
+ * @param onTapEnd Stamps the end of the last started line or word
+ * @param onUndo Takes back the last tap or nudge
+ * @param onSelect Selects a line for nudging, null clears the selection
+ * @param onNudge Moves the start or end of a line
+ * @param onPlayFrom Plays the song from shortly before a line
+ * @param onExport Writes and shares the lyric file
+ * @param onClose Leaves the editor
+ */
+export const LyricTimingEditor: React.FC<Props> = ({
+  song,
+  initialText,
+  mode,
+  lines,
+  cursor,
+  selectedIndex,
+  isPlaying,
+  positionMillis,
+  durationMillis,
+  canUndo,
+  onBegin,
+  onEditText,
+  onTogglePlayback,
+  onSeek,
+  onTap,
+  onTapEnd,
+  onUndo,
+  onSelect,
+  onNudge,
+  onPlayFrom,
+  onExport,
+  onClose
+}) => {
+  const [text, setText] = useState(initialText);
+  const [tapMode, setTapMode] = useState<TapMode>(mode);
+  // Position under the thumb while scrubbing, null when not scrubbing
+  const [scrubMillis, setScrubMillis] = useState<number | null>(null);
+  const shownMillis = scrubMillis ?? positionMillis;
+
+  const scrollViewRef = useRef<ScrollView>(null);
+  const rowPositions = useRef<number[]>([]);
+
+  const totalTaps = countTaps(lines, mode);
+  const next = getTapUnit(lines, mode, cursor);
+  const lastTapped = getTapUnit(lines, mode, cursor - 1);
+  const nextLine = next ? lines[next.line] : null;
+  const nextLabel = !nextLine ? 'All lines are timed'
+    : next && next.word >= 0 ? nextLine.words![next.word].text.trim() : nextLine.text;
+
+  // Keep the line of the next tap in view
+  useEffect(() => {
+    const index = next ? next.line : lines.length - 1;
+    const y = rowPositions.current[index];
+    if (y !== undefined) scrollViewRef.current?.scrollTo({ y: Math.max(0, y - 60), animated: true });
+  }, [next?.line]);
+
+  if (lines.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.heading}>Sync Lyrics</Text>
+        <Text style={styles.songTitle}>{song.title}</Text>
+        <Text style={styles.hint}>
+          Paste the lyrics, one line per row. Then play the song and tap whenever a line
+          (or word) starts. Start a row with [A], [B] or [Both] for duet parts.
+        </Text>
+
+        <TextInput
+          style={styles.textInput}
+          value={text}
+          onChangeText={setText}
+          multiline
+          textAlignVertical="top"
+          placeholder="Paste lyrics here"
+          placeholderTextColor="rgba(255,255,255,0.4)"
+        />
+
+        <View style={styles.modeRow}>
+          {(['line', 'word'] as TapMode[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeButton, tapMode === option && styles.modeButtonActive]}
+              onPress={() => setTapMode(option)}
+            >
+              <Text style={[styles.modeText, tapMode === option && styles.modeTextActive]}>
+                {option === 'line' ? 'Tap per line' : 'Tap per word'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => onBegin(text, tapMode)}>
+          <Ionicons name="hand-left-outline" size={20} color="#0f0c29" style={{ marginRight: 8 }} />
+          <Text style={styles.primaryText}>Start Syncing</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity onPress={onEditText}>
+          <Text style={styles.linkText}>Edit Text</Text>
+        </TouchableOpacity>
+        <Text style={styles.counter}>{Math.min(cursor, totalTaps)}/{totalTaps} taps</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Ionicons name="close" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView ref={scrollViewRef} style={styles.lineList}>
+        {lines.map((line, index) => {
+          const isSelected = index === selectedIndex;
+          const isNext = index === next?.line;
+          // Line being sung: its end may still be waiting for the next tap
+          const isActive = line.startTime !== UNSTAMPED && positionMillis >= line.startTime
+            && (line.endTime === UNSTAMPED ? index === lastTapped?.line : positionMillis < line.endTime);
+
+          return (
+            <View
+              key={line.id}
+              onLayout={(e: LayoutChangeEvent) => { rowPositions.current[index] = e.nativeEvent.layout.y; }}
+            >
+              <TouchableOpacity
+                style={[styles.lineRow, isNext && styles.nextRow, isSelected && styles.selectedRow]}
+                onPress={() => onSelect(isSelected ? null : index)}
+              >
+                <Text style={styles.stamp}>{formatStamp(line.startTime)}{'\n'}{formatStamp(line.endTime)}</Text>
+                <Text style={[styles.lineText, isActive && styles.activeText]}>{line.text}</Text>
+              </TouchableOpacity>
+
+              {isSelected && (
+                <View style={styles.nudgeRow}>
+                  {(['start', 'end'] as const).map(edge => (
+                    <View key={edge} style={styles.nudgeGroup}>
+                      <TouchableOpacity style={styles.nudgeButton} onPress={() => onNudge(index, edge, -NUDGE_STEP_MS)}>
+                        <Ionicons name="remove" size={16} color="#fff" />
+                      </TouchableOpacity>
+                      <Text style={styles.nudgeLabel}>{edge === 'start' ? 'Start' : 'End'}</Text>
+                      <TouchableOpacity style={styles.nudgeButton} onPress={() => onNudge(index, edge, NUDGE_STEP_MS)}>
+                        <Ionicons name="add" size={16} color="#fff" />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  <TouchableOpacity style={styles.nudgeButton} onPress={() => onPlayFrom(index)}>
+                    <Ionicons name="play" size={16} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <Slider
+        style={styles.slider}
+        minimumValue={0}
+        maximumValue={Math.max(1, durationMillis)}
+        value={shownMillis}
+        onValueChange={setScrubMillis}
+        onSlidingComplete={(value) => {
+          setScrubMillis(null);
+          onSeek(value);
+        }}
+        minimumTrackTintColor="#FFD740"
+        maximumTrackTintColor="rgba(255,255,255,0.3)"
+        thumbTintColor="#FFD740"
+      />
+      <View style={styles.transportRow}>
+        <Text style={styles.timeText}>{formatDuration(shownMillis)}</Text>
+        <TouchableOpacity style={styles.transportButton} onPress={() => onSeek(positionMillis - 5000)}>
+          <Ionicons name="play-back" size={20} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.transportButton} onPress={onTogglePlayback}>
+          <Ionicons name={isPlaying ? 'pause' : 'play'} size={22} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.transportButton, !canUndo && styles.disabled]} onPress={onUndo} disabled={!canUndo}>
+          <Ionicons name="arrow-undo" size={20} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.timeText}>{formatDuration(durationMillis)}</Text>
+      </View>
+
+      <View style={styles.tapRow}>
+        <TouchableOpacity
+          style={[styles.tapButton, !nextLine && styles.disabled]}
+          onPress={onTap}
+          disabled={!nextLine}
+        >
+          <Text style={styles.tapLabel}>TAP</Text>
+          <Text style={styles.tapNext} numberOfLines={1}>{nextLabel}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.endButton, cursor === 0 && styles.disabled]} onPress={onTapEnd} disabled={cursor === 0}>
+          <Text style={styles.endLabel}>END</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity style={[styles.primaryButton, cursor === 0 && styles.disabled]} onPress={onExport} disabled={cursor === 0}>
+        <Ionicons name="share-outline" size={20} color="#0f0c29" style={{ marginRight: 8 }} />
+        <Text style={styles.primaryText}>{mode === 'word' ? 'Export LRC' : 'Export SRT'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    alignItems: 'center',
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 10,
+  },
+  songTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFD740',
+    marginTop: 4,
+  },
+  hint: {
+    color: '#B0BEC5',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 10,
+    marginBottom: 15,
+    lineHeight: 19,
+  },
+  textInput: {
+    flex: 1,
+    width: '100%',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 15,
+    color: '#fff',
+    fontSize: 15,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 15,
+  },
+  modeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  modeButtonActive: {
+    backgroundColor: '#FFD740',
+  },
+  modeText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: '#0f0c29',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 15,
+    paddingVertical: 14,
+    paddingHorizontal: 30,
+    borderRadius: 30,
+    backgroundColor: '#FFD740',
+  },
+  primaryText: {
+    color: '#0f0c29',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    marginTop: 10,
+    padding: 10,
+  },
+  cancelText: {
+    color: '#B0BEC5',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  headerRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  linkText: {
+    color: '#4FC3F7',
+    fontWeight: '600',
+  },
+  counter: {
+    color: '#B0BEC5',
+    fontSize: 13,
+  },
+  lineList: {
+    flex: 1,
+    width: '100%',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  nextRow: {
+    borderColor: 'rgba(255,215,64,0.6)',
+  },
+  selectedRow: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  stamp: {
+    width: 70,
+    color: '#B0BEC5',
+    fontSize: 11,
+    fontVariant: ['tabular-nums'],
+  },
+  lineText: {
+    flex: 1,
+    color: 'rgba(255,255,255,0.75)',
+    fontSize: 15,
+  },
+  activeText: {
+    color: '#FFD740',
+    fontWeight: 'bold',
+  },
+  nudgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  nudgeGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  nudgeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nudgeLabel: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+  },
+  transportRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  transportButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timeText: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    width: 40,
+  },
+  tapRow: {
+    width: '100%',
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 15,
+  },
+  tapButton: {
+    flex: 1,
+    height: 90,
+    borderRadius: 24,
+    backgroundColor: '#4FC3F7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+  },
+  tapLabel: {
+    color: '#0f0c29',
+    fontSize: 24,
+    fontWeight: '800',
+    letterSpacing: 3,
+  },
+  tapNext: {
+    color: '#0f0c29',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  endButton: {
+    width: 90,
+    height: 90,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  endLabel: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '800',
+    letterSpacing: 2,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
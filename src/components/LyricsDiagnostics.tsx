@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { LyricsDiagnostic } from '../utils/srtParser';
+
+/**
+ * Props for the LyricsDiagnostics component.
+ */
+interface Props {
+  diagnostics: LyricsDiagnostic[];
+}
+
+/**
+ * Lists the problems found in the lyric file of the selected song, with their line numbers.
+ * Starts expanded when lines had to be left out.
+ *
+ * @param diagnostics Problems found while parsing the lyrics
+ */
+export const LyricsDiagnostics: React.FC<Props> = ({ diagnostics }) => {
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  // Follows the severity until the user opens or closes the list
+  const [toggled, setToggled] = useState<boolean | null>(null);
+  const expanded = toggled ?? errors > 0;
+
+  if (diagnostics.length === 0) return null;
+
+  const summary = [
+    errors > 0 ? `${errors} ${errors === 1 ? 'error' : 'errors'}` : null,
+    warnings > 0 ? `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setToggled(!expanded)}>
+        <Ionicons
+          name={errors > 0 ? 'alert-circle' : 'warning'}
+          size={16}
+          color={errors > 0 ? '#FF5252' : '#FFD740'}
+          style={{ marginRight: 6 }}
+        />
+        <Text style={styles.summary}>Lyric file: {summary}</Text>
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#B0BEC5" />
+      </TouchableOpacity>
+
+      {expanded && (
+        <ScrollView style={styles.list} nestedScrollEnabled>
+          {diagnostics.map((diagnostic, index) => (
+            <View key={index} style={styles.item}>
+              <Text style={[styles.lineNumber, diagnostic.severity === 'error' && styles.errorText]}>
+                {diagnostic.line ? `Line ${diagnostic.line}` : 'File'}
+              </Text>
+              <Text style={styles.message}>{diagnostic.message}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '85%',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    marginBottom: 15,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  summary: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  list: {
+    maxHeight: 140,
+    marginTop: 6,
+  },
+  item: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+  },
+  lineNumber: {
+    width: 58,
+    color: '#FFD740',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#FF5252',
+  },
+  message: {
+    flex: 1,
+    color: '#B0BEC5',
+    fontSize: 12,
+  },
+});
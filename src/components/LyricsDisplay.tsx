@@ -1,6 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, LayoutChangeEvent, Animated } from 'react-native';
-import { LyricLine } from '../utils/srtParser';
+import { View, Text, StyleSheet, ScrollView, LayoutChangeEvent, Animated, Pressable } from 'react-native';
+import { DuetPart, LyricLine, LyricWord } from '../utils/srtParser';
+import { getWordTimings, getWordProgress } from '../utils/wordTimings';
+import { LoopRange, isLineInLoop } from '../utils/loopRange';
+import { PART_COLORS, getNextTurn } from '../utils/duet';
+import { BreakCountdown, COUNTDOWN_BEATS, getBreakCountdown, getCountdownDots } from '../utils/lyricBreaks';
 
 /**
  * Props for the LyricsDisplay component.
@@ -8,39 +12,137 @@ import { LyricLine } from '../utils/srtParser';
 interface Props {
   lyrics: LyricLine[];
   currentTime: number;
+  paused?: boolean; // Freezes the animations while the session is paused
+  onLinePress?: (line: LyricLine) => void; // Makes the lines tappable (e.g. to seek)
+  onLineLongPress?: (line: LyricLine) => void; // E.g. to sync a line to the current position
+  highlightRange?: LoopRange | null; // Marks the lines of a looped section
+  partLabels?: Record<DuetPart, string>; // Names shown for the duet parts
 }
 
+// How long before a change of singer the "next" banner appears
+const NEXT_TURN_LEAD_MS = 8000;
+// Layout key of the row shown before the first line
+const INTRO_ID = 'intro';
+
 /**
- * A component that displays a pulsing "Instrumental Break" text.
+ * A component that displays a pulsing "Instrumental Break" (or "Intro") text.
  * Used when there are long gaps between lyrics.
  */
-const PulseIcon = () => {
+const PulseIcon = ({ paused, label = 'Instrumental Break' }: { paused: boolean; label?: string }) => {
   const opacity = useRef(new Animated.Value(0.3)).current;
 
   useEffect(() => {
-    Animated.loop(
+    if (paused) return;
+    const animation = Animated.loop(
       Animated.sequence([
         Animated.timing(opacity, { toValue: 1, duration: 800, useNativeDriver: true }),
         Animated.timing(opacity, { toValue: 0.3, duration: 800, useNativeDriver: true }),
       ])
-    ).start();
-  }, []);
+    );
+    animation.start();
+    return () => animation.stop();
+  }, [paused]);
 
   return (
     <Animated.Text style={[styles.instrumentalIcon, { opacity }]}>
-      🎵 Instrumental Break 🎵
+      🎵 {label} 🎵
     </Animated.Text>
   );
 };
 
+/**
+ * Shows when singing resumes after an instrumental part and which line comes next.
+ * The last seconds are counted down with dots that go out one by one.
+ */
+const CountdownInfo = ({ countdown }: { countdown: BreakCountdown }) => {
+  const dots = getCountdownDots(countdown.remainingMs);
+
+  return (
+    <View style={styles.countdown}>
+      {dots > 0 ? (
+        <View style={styles.dots}>
+          {Array.from({ length: COUNTDOWN_BEATS }, (_, index) => (
+            <View key={index} style={[styles.dot, index < dots && styles.dotLit]} />
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.countdownText}>
+          {countdown.isIntro ? 'Lyrics start' : 'Singing resumes'} in {Math.ceil(countdown.remainingMs / 1000)}s
+        </Text>
+      )}
+      <Text style={styles.previewText} numberOfLines={1}>Next: {countdown.nextLine.text.split('\n')[0]}</Text>
+    </View>
+  );
+};
+
+/**
+ * A single word of the active line that fills from left to right while it is sung.
+ * The highlighted copy is clipped to the sung fraction of the measured word width.
+ */
+const KaraokeWord = ({ word, currentTime }: { word: LyricWord; currentTime: number }) => {
+  const [width, setWidth] = useState(0);
+  const progress = getWordProgress(word, currentTime);
+  const text = word.text.replace(/\n$/, '');
+
+  return (
+    <View onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}>
+      <Text style={[styles.activeText, styles.unsungText]}>{text}</Text>
+      {progress > 0 && width > 0 && (
+        <View style={[styles.wipe, { width: width * progress }]}>
+          <Text style={[styles.activeText, { width }]} numberOfLines={1}>{text}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Renders the active line word by word with a progressive "karaoke wipe".
+ * Words ending with a line break start a new row.
+ */
+const KaraokeLine = ({ line, currentTime }: { line: LyricLine; currentTime: number }) => {
+  const rows: LyricWord[][] = [[]];
+  getWordTimings(line).forEach(word => {
+    rows[rows.length - 1].push(word);
+    if (word.text.endsWith('\n')) rows.push([]);
+  });
+
+  return (
+    <View style={styles.activeLine}>
+      {rows.map((row, rowIndex) => (
+        <View key={rowIndex} style={styles.wordRow}>
+          {row.map((word, wordIndex) => (
+            <KaraokeWord key={wordIndex} word={word} currentTime={currentTime} />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
 /**
  * Displays synchronized lyrics with auto-scrolling functionality.
- * Highlights the current line based on the audio playback time.
+ * Highlights the current line based on the audio playback time,
+ * filling in each word as it is sung. Instrumental breaks and a long intro
+ * count down to the next line and preview it.
  * 
  * @param lyrics Array of parsed lyric lines
  * @param currentTime Current playback time in milliseconds
+ * @param paused Whether the session is paused
+ * @param onLinePress Called when a line is tapped
+ * @param onLineLongPress Called when a line is long-pressed
+ * @param highlightRange Section whose lines are marked
+ * @param partLabels Names of the duet parts, lines with a part are color-coded
  */
-export const LyricsDisplay: React.FC<Props> = ({ lyrics, currentTime }) => {
+export const LyricsDisplay: React.FC<Props> = ({
+  lyrics,
+  currentTime,
+  paused = false,
+  onLinePress,
+  onLineLongPress,
+  highlightRange = null,
+  partLabels = { A: 'Part A', B: 'Part B', Both: 'Both' }
+}) => {
   const scrollViewRef = useRef<ScrollView>(null);
   const [containerHeight, setContainerHeight] = useState(0);
 
@@ -51,10 +153,29 @@ export const LyricsDisplay: React.FC<Props> = ({ lyrics, currentTime }) => {
     l => currentTime >= l.startTime && currentTime <= l.endTime
   );
 
+  // Intros long enough for the full countdown get their own row above the first line
+  const countdown = getBreakCountdown(lyrics, currentTime);
+  const firstLine = lyrics.find(line => !line.isInstrumental);
+  const hasIntro = !!firstLine && firstLine.startTime > COUNTDOWN_BEATS * 1000;
+  const isIntro = hasIntro && !!countdown?.isIntro;
+  const activeId = isIntro ? INTRO_ID : activeIndex !== -1 ? lyrics[activeIndex].id : null;
+
+  // Upcoming change of singer in a duet
+  const nextTurn = getNextTurn(lyrics, currentTime);
+  const showNextTurn = !!nextTurn?.part && nextTurn.startTime - currentTime <= NEXT_TURN_LEAD_MS;
+
+  // Label the part wherever the singer changes
+  let lastPart: DuetPart | undefined;
+  const partChanges = lyrics.map(line => {
+    if (line.isInstrumental || !line.part) return false;
+    const changed = line.part !== lastPart;
+    lastPart = line.part;
+    return changed;
+  });
+
   // Auto-scroll to the active line
   useEffect(() => {
-    if (activeIndex !== -1 && scrollViewRef.current && containerHeight > 0) {
-      const activeId = lyrics[activeIndex].id;
+    if (activeId && scrollViewRef.current && containerHeight > 0) {
       const currentItem = itemsLayout.current[activeId];
 
       if (currentItem) {
@@ -66,10 +187,17 @@ export const LyricsDisplay: React.FC<Props> = ({ lyrics, currentTime }) => {
         });
       }
     }
-  }, [activeIndex, containerHeight]);
+  }, [activeId, containerHeight]);
 
   return (
     <View style={styles.wrapper}>
+      {showNextTurn && nextTurn?.part && (
+        <View style={[styles.nextTurn, { borderColor: PART_COLORS[nextTurn.part] }]}>
+          <Text style={[styles.nextTurnText, { color: PART_COLORS[nextTurn.part] }]}>
+            Next: {partLabels[nextTurn.part]} in {Math.max(1, Math.ceil((nextTurn.startTime - currentTime) / 1000))}s
+          </Text>
+        </View>
+      )}
       <ScrollView
         ref={scrollViewRef}
         style={styles.container}
@@ -83,13 +211,36 @@ export const LyricsDisplay: React.FC<Props> = ({ lyrics, currentTime }) => {
         {/* Spacer to allow the first line to be centered */}
         <View style={{ height: containerHeight / 2 - 40 }} />
 
+        {hasIntro && (
+          <View
+            style={styles.line}
+            onLayout={(e: LayoutChangeEvent) => {
+              const layout = e.nativeEvent.layout;
+              itemsLayout.current[INTRO_ID] = { y: layout.y, height: layout.height };
+            }}
+          >
+            {isIntro && countdown ? (
+              <>
+                <PulseIcon paused={paused} label="Intro" />
+                <CountdownInfo countdown={countdown} />
+              </>
+            ) : (
+              <Text style={styles.instrumentalText}>• • •</Text>
+            )}
+          </View>
+        )}
+
         {lyrics.map((line, index) => {
           const isActive = index === activeIndex;
+          const showPart = partChanges[index];
 
           return (
-            <View
+            <Pressable
               key={line.id}
-              style={styles.line}
+              style={[styles.line, isLineInLoop(line, highlightRange) && styles.loopedLine]}
+              disabled={!onLinePress && !onLineLongPress}
+              onPress={() => onLinePress?.(line)}
+              onLongPress={() => onLineLongPress?.(line)}
               onLayout={(e: LayoutChangeEvent) => {
                 const layout = e.nativeEvent.layout;
                 itemsLayout.current[line.id] = {
@@ -98,14 +249,26 @@ export const LyricsDisplay: React.FC<Props> = ({ lyrics, currentTime }) => {
                 };
               }}
             >
+              {showPart && line.part && (
+                <Text style={[styles.partLabel, { color: PART_COLORS[line.part] }]}>{partLabels[line.part]}</Text>
+              )}
               {line.isInstrumental ? (
-                isActive ? <PulseIcon /> : <Text style={styles.instrumentalText}>• • •</Text>
+                isActive ? (
+                  <>
+                    <PulseIcon paused={paused} />
+                    {countdown && <CountdownInfo countdown={countdown} />}
+                  </>
+                ) : (
+                  <Text style={styles.instrumentalText}>• • •</Text>
+                )
+              ) : isActive ? (
+                <KaraokeLine line={line} currentTime={currentTime} />
               ) : (
-                <Text style={[styles.text, isActive && styles.activeText]}>
+                <Text style={[styles.text, line.part && { color: PART_COLORS[line.part], opacity: 0.75 }]}>
                   {line.text}
                 </Text>
               )}
-            </View>
+            </Pressable>
           );
         })}
 
@@ -136,6 +299,35 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     width: '100%',
   },
+  nextTurn: {
+    position: 'absolute',
+    top: 8,
+    alignSelf: 'center',
+    zIndex: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    backgroundColor: 'rgba(15, 12, 41, 0.85)',
+  },
+  nextTurnText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  partLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  loopedLine: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#4FC3F7',
+    backgroundColor: 'rgba(79, 195, 247, 0.08)',
+    borderRadius: 8,
+  },
   text: {
     fontSize: 22,
     color: 'rgba(255, 255, 255, 0.6)',
@@ -151,8 +343,30 @@ const styles = StyleSheet.create({
     textShadowColor: 'rgba(255, 215, 0, 0.6)', // Slight gold glow
     textShadowOffset: { width: 0, height: 0 },
     textShadowRadius: 15,
+  },
+  activeLine: {
+    alignItems: 'center',
+    width: '100%',
     transform: [{ scale: 1.1 }],
   },
+  wordRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  // Not yet sung part of the active line
+  unsungText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    textShadowColor: 'transparent',
+  },
+  // Clips the gold copy of a word to the sung fraction
+  wipe: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    overflow: 'hidden',
+  },
   instrumentalIcon: {
     fontSize: 18,
     color: '#FFCCBC',
@@ -164,5 +378,36 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: 'rgba(255,255,255,0.3)',
     fontWeight: 'bold',
+  },
+  countdown: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  countdownText: {
+    fontSize: 14,
+    color: '#B0BEC5',
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 3,
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  dotLit: {
+    backgroundColor: '#FFD700',
+  },
+  previewText: {
+    marginTop: 8,
+    fontSize: 18,
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontWeight: '600',
+    textAlign: 'center',
   }
 });
\ No newline at end of file
@@ -0,0 +1,302 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { MixSettings, MIX_LIMITS } from '../utils/mixSettings';
+import { VOCAL_PRESETS } from '../utils/vocalEffects';
+import {
+  EXPORT_PROFILES,
+  getExportProfile,
+  getExportFormat,
+  getAvailableFormats,
+  estimateFileSize,
+  formatFileSize
+} from '../utils/exportProfiles';
+
+/**
+ * Props for the MixControls component.
+ */
+interface Props {
+  settings: MixSettings;
+  isPreviewing: boolean;
+  hasMix: boolean;
+  durationMillis: number;
+  onChange: (changes: Partial<MixSettings>) => void;
+  onCommit: (changes: Partial<MixSettings>) => void;
+  onTogglePreview: () => void;
+  onRender: () => void;
+}
+
+/**
+ * Mix balance controls of the result screen with a live preview toggle.
+ *
+ * @param settings Current mix settings
+ * @param isPreviewing Whether the live preview is playing
+ * @param hasMix Whether a mix has already been rendered
+ * @param durationMillis Length of the mix, used for the file size estimate
+ * @param onChange Called while a control is being moved
+ * @param onCommit Called when a control is released, stores the settings
+ * @param onTogglePreview Starts or stops the live preview
+ * @param onRender Renders the final mix with the current settings
+ */
+export const MixControls: React.FC<Props> = ({ settings, isPreviewing, hasMix, durationMillis, onChange, onCommit, onTogglePreview, onRender }) => {
+  const nudge = (deltaMs: number) => {
+    const { min, max } = MIX_LIMITS.voiceOffsetMs;
+    onCommit({ voiceOffsetMs: Math.min(max, Math.max(min, settings.voiceOffsetMs + deltaMs)) });
+  };
+
+  const exportProfile = getExportProfile(settings.exportProfile);
+  const exportFormat = getExportFormat(settings.exportFormat);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Mix Balance</Text>
+
+      <View style={styles.controlRow}>
+        <Ionicons name="musical-notes-outline" size={18} color="#B0BEC5" />
+        <Text style={styles.label}>Music</Text>
+        <Slider
+          style={styles.slider}
+          minimumValue={MIX_LIMITS.musicVolume.min}
+          maximumValue={MIX_LIMITS.musicVolume.max}
+          value={settings.musicVolume}
+          onValueChange={(value) => onChange({ musicVolume: value })}
+          onSlidingComplete={(value) => onCommit({ musicVolume: value })}
+          minimumTrackTintColor="#FFD740"
+          maximumTrackTintColor="rgba(255,255,255,0.3)"
+          thumbTintColor="#FFD740"
+        />
+        <Text style={styles.value}>{Math.round(settings.musicVolume * 100)}%</Text>
+      </View>
+
+      <View style={styles.controlRow}>
+        <Ionicons name="mic-outline" size={18} color="#B0BEC5" />
+        <Text style={styles.label}>Voice</Text>
+        <Slider
+          style={styles.slider}
+          minimumValue={MIX_LIMITS.voiceVolume.min}
+          maximumValue={MIX_LIMITS.voiceVolume.max}
+          value={settings.voiceVolume}
+          onValueChange={(value) => onChange({ voiceVolume: value })}
+          onSlidingComplete={(value) => onCommit({ voiceVolume: value })}
+          minimumTrackTintColor="#AB47BC"
+          maximumTrackTintColor="rgba(255,255,255,0.3)"
+          thumbTintColor="#AB47BC"
+        />
+        <Text style={styles.value}>{Math.round(settings.voiceVolume * 100)}%</Text>
+      </View>
+
+      <View style={styles.controlRow}>
+        <Ionicons name="time-outline" size={18} color="#B0BEC5" />
+        <Text style={styles.label}>Timing</Text>
+        <TouchableOpacity style={styles.nudgeButton} onPress={() => nudge(-MIX_LIMITS.voiceOffsetMs.step)}>
+          <Ionicons name="play-back" size={14} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.offsetText}>
+          {settings.voiceOffsetMs > 0 ? '+' : ''}{settings.voiceOffsetMs} ms
+        </Text>
+        <TouchableOpacity style={styles.nudgeButton} onPress={() => nudge(MIX_LIMITS.voiceOffsetMs.step)}>
+          <Ionicons name="play-forward" size={14} color="#fff" />
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>Voice earlier ◀ ▶ Voice later</Text>
+
+      <Text style={styles.subheading}>Voice Effect</Text>
+      <View style={styles.presetRow}>
+        {VOCAL_PRESETS.map(preset => {
+          const isSelected = preset.id === settings.effectPreset;
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.presetChip, isSelected && styles.presetChipActive]}
+              onPress={() => onCommit({ effectPreset: preset.id })}
+            >
+              <Text style={[styles.presetText, isSelected && styles.presetTextActive]}>{preset.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.subheading}>Export Quality</Text>
+      <View style={styles.presetRow}>
+        {EXPORT_PROFILES.map(profile => {
+          const isSelected = profile.id === exportProfile.id;
+          return (
+            <TouchableOpacity
+              key={profile.id}
+              style={[styles.presetChip, isSelected && styles.exportChipActive]}
+              onPress={() => onCommit({ exportProfile: profile.id })}
+            >
+              <Text style={[styles.presetText, isSelected && styles.exportTextActive]}>{profile.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={[styles.presetRow, styles.formatRow]}>
+        {getAvailableFormats(Platform.OS).map(format => {
+          const isSelected = format.id === exportFormat.id;
+          return (
+            <TouchableOpacity
+              key={format.id}
+              style={[styles.presetChip, isSelected && styles.exportChipActive]}
+              onPress={() => onCommit({ exportFormat: format.id })}
+            >
+              <Text style={[styles.presetText, isSelected && styles.exportTextActive]}>{format.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.exportInfo}>
+        {exportProfile.description}, .{exportFormat.extension}
+        {durationMillis > 0 ? ` · about ${formatFileSize(estimateFileSize(exportProfile, durationMillis, exportFormat))}` : ''}
+      </Text>
+      {exportFormat.recorderMimeType && <Text style={styles.exportInfo}>Compressed files are encoded in real time and saved as WAV if encoding fails.</Text>}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.actionBtn, styles.previewBtn]} onPress={onTogglePreview}>
+          <Ionicons name={isPreviewing ? 'stop' : 'headset-outline'} size={18} color="#fff" style={styles.btnIcon} />
+          <Text style={styles.actionBtnText}>{isPreviewing ? 'Stop' : 'Preview'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.actionBtn, styles.renderBtn]} onPress={onRender}>
+          <Ionicons name="construct-outline" size={18} color="#0f0c29" style={styles.btnIcon} />
+          <Text style={[styles.actionBtnText, { color: '#0f0c29' }]}>{hasMix ? 'Re-render Mix' : 'Render Mix'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  heading: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 10,
+    letterSpacing: 0.5,
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  label: {
+    width: 56,
+    color: '#fff',
+    marginLeft: 8,
+    fontSize: 13,
+  },
+  slider: {
+    flex: 1,
+    height: 30,
+  },
+  value: {
+    width: 46,
+    textAlign: 'right',
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  nudgeButton: {
+    width: 36,
+    height: 30,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  offsetText: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#fff',
+    fontWeight: '600',
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.4)',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  subheading: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  presetChipActive: {
+    backgroundColor: '#AB47BC',
+    borderColor: '#AB47BC',
+  },
+  presetText: {
+    color: '#B0BEC5',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  presetTextActive: {
+    color: '#fff',
+  },
+  exportChipActive: {
+    backgroundColor: '#FFD740',
+    borderColor: '#FFD740',
+  },
+  exportTextActive: {
+    color: '#0f0c29',
+  },
+  formatRow: {
+    marginTop: 8,
+  },
+  exportInfo: {
+    color: 'rgba(255,255,255,0.5)',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 15,
+  },
+  actionBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewBtn: {
+    backgroundColor: '#5C6BC0',
+  },
+  renderBtn: {
+    backgroundColor: '#FFD740',
+  },
+  actionBtnText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  btnIcon: {
+    marginRight: 8,
+  },
+});
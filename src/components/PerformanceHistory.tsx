@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator, TextInput, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AudioPlayer } from './AudioPlayer';
+import { Performance } from '../utils/performances';
+import { formatDuration } from '../utils/songCatalog';
+import { formatTranspose, isIdentityTranspose } from '../utils/transpose';
+import { getExportProfile } from '../utils/exportProfiles';
+
+/**
+ * Props for the PerformanceHistory component.
+ */
+interface Props {
+  performances: Performance[];
+  loading: boolean;
+  onShare: (performance: Performance) => void;
+  onSave: (performance: Performance) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Formats the date of a performance, e.g. "Mar 4, 2025 · 18:30".
+ */
+const formatDate = (time: number): string => {
+  const date = new Date(time);
+  const day = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  return `${day} · ${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+};
+
+/**
+ * History screen listing past performances.
+ * The selected performance can be replayed, shared, saved, renamed or deleted.
+ *
+ * @param performances Stored performances, newest first
+ * @param loading Whether the history is still loading
+ * @param onShare Shares the mix of a performance
+ * @param onSave Saves the mix of a performance to the device
+ * @param onRename Gives a performance a new name
+ * @param onDelete Deletes a performance
+ * @param onClose Leaves the history
+ */
+export const PerformanceHistory: React.FC<Props> = ({
+  performances,
+  loading,
+  onShare,
+  onSave,
+  onRename,
+  onDelete,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  /**
+   * Starts renaming a performance.
+   */
+  const startRename = (performance: Performance) => {
+    setEditingId(performance.id);
+    setDraftTitle(performance.title);
+  };
+
+  /**
+   * Stores the edited name.
+   */
+  const finishRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  /**
+   * Asks for confirmation before deleting a performance.
+   */
+  const confirmDelete = (performance: Performance) => {
+    Alert.alert('Delete Performance', `Delete "${performance.title}"? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          if (selectedId === performance.id) setSelectedId(null);
+          onDelete(performance.id);
+        }
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#FFD740" />
+        <Text style={styles.emptyText}>Loading History...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity style={styles.backButton} onPress={onClose}>
+          <Ionicons name="chevron-back" size={22} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.heading}>My Performances</Text>
+      </View>
+
+      <FlatList
+        data={performances}
+        keyExtractor={performance => performance.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>No performances yet. Sing a song and render the mix!</Text>}
+        renderItem={({ item }) => {
+          const isSelected = item.id === selectedId;
+          return (
+            <View style={[styles.card, isSelected && styles.cardSelected]}>
+              <TouchableOpacity style={styles.row} onPress={() => setSelectedId(isSelected ? null : item.id)}>
+                <View style={styles.info}>
+                  {editingId === item.id ? (
+                    <TextInput
+                      style={styles.titleInput}
+                      value={draftTitle}
+                      onChangeText={setDraftTitle}
+                      onSubmitEditing={finishRename}
+                      onBlur={finishRename}
+                      autoFocus
+                      returnKeyType="done"
+                    />
+                  ) : (
+                    <Text style={styles.title} numberOfLines={1}>{item.title}</Text>
+                  )}
+                  <Text style={styles.meta} numberOfLines={1}>
+                    {item.songTitle} · {item.songArtist}
+                  </Text>
+                  <Text style={styles.meta} numberOfLines={1}>
+                    {formatDate(item.createdAt)} · {formatDuration(item.durationMillis)}
+                    {isIdentityTranspose(item.transpose) ? '' : ` · ${formatTranspose(item.transpose)}`}
+                  </Text>
+                </View>
+                {item.score !== null && (
+                  <View style={styles.scoreBadge}>
+                    <Text style={styles.scoreText}>{item.score}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+
+              {isSelected && (
+                <View style={styles.details}>
+                  <AudioPlayer uri={item.mixUri} title={`${item.title} (${getExportProfile(item.settings.exportProfile).name})`} />
+                  <View style={styles.actionRow}>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => onShare(item)}>
+                      <Ionicons name="share-outline" size={18} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => onSave(item)}>
+                      <Ionicons name="download-outline" size={18} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => startRename(item)}>
+                      <Ionicons name="pencil" size={18} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.actionButton, styles.deleteButton]} onPress={() => confirmDelete(item)}>
+                      <Ionicons name="trash-outline" size={18} color="#fff" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+            </View>
+          );
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+    paddingHorizontal: 20,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  heading: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  list: {
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  cardSelected: {
+    borderColor: '#FFD740',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  titleInput: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#FFD740',
+    paddingVertical: 2,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#B0BEC5',
+    marginTop: 2,
+  },
+  scoreBadge: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255,215,64,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 10,
+  },
+  scoreText: {
+    color: '#FFD740',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  details: {
+    marginTop: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 10,
+    marginTop: 10,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#5C6BC0',
+  },
+  deleteButton: {
+    backgroundColor: '#E53935',
+  },
+  emptyText: {
+    color: '#B0BEC5',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MixProgress, MixStage } from './AudioMixer';
+
+const STAGE_LABELS: Record<MixStage, string> = {
+  transferring: 'Transferring audio',
+  decoding: 'Decoding audio',
+  rendering: 'Rendering',
+  encoding: 'Encoding file',
+  saving: 'Saving file',
+};
+
+/**
+ * Props for the ProcessingStatus component.
+ */
+interface Props {
+  title: string;
+  subtitle: string;
+  progress: MixProgress | null;
+  onCancel: () => void;
+}
+
+/**
+ * Progress screen of a running mixer job with its current stage and a Cancel button.
+ *
+ * @param title What is being processed
+ * @param subtitle Shown until the mixer reports its first stage
+ * @param progress Stage and percentage reported by the mixer
+ * @param onCancel Stops the job
+ */
+export const ProcessingStatus: React.FC<Props> = ({ title, subtitle, progress, onCancel }) => {
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#FFD740" />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.stage}>
+        {progress
+          ? `${STAGE_LABELS[progress.stage]}${progress.percent !== null ? ` ${progress.percent}%` : '...'}`
+          : subtitle}
+      </Text>
+
+      <View style={styles.track}>
+        {progress && progress.percent !== null && (
+          <View style={[styles.fill, { width: `${progress.percent}%` }]} />
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+        <Ionicons name="close" size={18} color="#fff" style={{ marginRight: 6 }} />
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    marginTop: 20,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  stage: {
+    marginTop: 8,
+    color: '#B0BEC5',
+  },
+  track: {
+    width: '70%',
+    height: 6,
+    borderRadius: 3,
+    marginTop: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#FFD740',
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 30,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  cancelText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDuration } from '../utils/songCatalog';
+
+/**
+ * Props for the RehearsalControls component.
+ */
+interface Props {
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  onTogglePlayback: () => void;
+  onSeek: (positionMillis: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Transport of the rehearsal mode: play/pause, a scrub bar and a button to leave.
+ *
+ * @param isPlaying Whether the backing track is playing
+ * @param positionMillis Current playback position
+ * @param durationMillis Length of the backing track
+ * @param onTogglePlayback Pauses or continues playback
+ * @param onSeek Jumps to the position the scrub bar was released at
+ * @param onClose Ends the rehearsal
+ */
+export const RehearsalControls: React.FC<Props> = ({
+  isPlaying,
+  positionMillis,
+  durationMillis,
+  onTogglePlayback,
+  onSeek,
+  onClose
+}) => {
+  // Position under the thumb while scrubbing, null when not scrubbing
+  const [scrubMillis, setScrubMillis] = useState<number | null>(null);
+  const shownMillis = scrubMillis ?? positionMillis;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>• REHEARSAL •</Text>
+
+      <Slider
+        style={styles.slider}
+        minimumValue={0}
+        maximumValue={Math.max(1, durationMillis)}
+        value={shownMillis}
+        onValueChange={setScrubMillis}
+        onSlidingComplete={(value) => {
+          setScrubMillis(null);
+          onSeek(value);
+        }}
+        minimumTrackTintColor="#FFD740"
+        maximumTrackTintColor="rgba(255,255,255,0.3)"
+        thumbTintColor="#FFD740"
+      />
+      <View style={styles.timeRow}>
+        <Text style={styles.timeText}>{formatDuration(shownMillis)}</Text>
+        <Text style={styles.timeText}>{formatDuration(durationMillis)}</Text>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Ionicons name="close" size={22} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.playButton} onPress={onTogglePlayback}>
+          <Ionicons name={isPlaying ? 'pause' : 'play'} size={30} color="#0f0c29" style={{ marginLeft: isPlaying ? 0 : 3 }} />
+        </TouchableOpacity>
+        <View style={styles.closeButtonSpacer} />
+      </View>
+      <Text style={styles.hint}>Tap a lyric line to jump to it</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 30,
+    paddingTop: 20,
+    paddingBottom: 40,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderTopLeftRadius: 30,
+    borderTopRightRadius: 30,
+  },
+  label: {
+    color: '#FFD740',
+    fontWeight: 'bold',
+    letterSpacing: 3,
+    marginBottom: 10,
+    fontSize: 14,
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+  },
+  timeRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 10,
+  },
+  timeText: {
+    color: '#B0BEC5',
+    fontSize: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 30,
+    marginTop: 10,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#FFD740',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonSpacer: {
+    width: 44,
+  },
+  hint: {
+    color: 'rgba(255,255,255,0.4)',
+    fontSize: 11,
+    marginTop: 12,
+  },
+});
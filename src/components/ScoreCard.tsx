@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PerformanceScore } from '../utils/pitchScoring';
+
+/**
+ * Props for the ScoreCard component.
+ */
+interface Props {
+  score: PerformanceScore;
+}
+
+/**
+ * Returns the highlight color for a score (Red -> Amber -> Green).
+ */
+const getScoreColor = (score: number) => {
+  if (score >= 75) return '#69F0AE';
+  if (score >= 45) return '#FFD740';
+  return '#FF5252';
+};
+
+/**
+ * Shows the overall pitch score and a bar per lyric line.
+ * Songs without a melody file have no reference to score against, which is shown instead of a number.
+ *
+ * @param score The performance score
+ */
+export const ScoreCard: React.FC<Props> = ({ score }) => {
+  if (score.overall === null) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.label}>PITCH SCORE</Text>
+        <Text style={styles.noReference}>No reference</Text>
+        <Text style={styles.hint}>Add a melody file to the song to get a pitch score.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>PITCH SCORE</Text>
+      <Text style={[styles.overall, { color: getScoreColor(score.overall) }]}>{score.overall}</Text>
+
+      {score.lines.map(line => (
+        <View key={line.lineId} style={styles.lineRow}>
+          <Text style={styles.lineText} numberOfLines={1}>{line.text.replace(/\n/g, ' ')}</Text>
+          {line.score === null ? (
+            <Text style={styles.lineScore}>–</Text>
+          ) : (
+            <>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${line.score}%`, backgroundColor: getScoreColor(line.score) }]} />
+              </View>
+              <Text style={styles.lineScore}>{line.score}</Text>
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    alignItems: 'center',
+  },
+  label: {
+    color: '#B0BEC5',
+    fontWeight: 'bold',
+    letterSpacing: 3,
+    fontSize: 12,
+  },
+  overall: {
+    fontSize: 56,
+    fontWeight: '800',
+    marginBottom: 10,
+  },
+  noReference: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: '700',
+    marginTop: 10,
+  },
+  hint: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    marginTop: 6,
+  },
+  lineText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 12,
+    marginRight: 8,
+  },
+  barTrack: {
+    width: 80,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  lineScore: {
+    width: 30,
+    textAlign: 'right',
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, ActivityIndicator } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { Song } from '../utils/songCatalog';
+import { ImportSongInput, ImportSongResult, PickedFile, suggestSongInfo } from '../utils/songImporter';
+
+/**
+ * Props for the SongImporter component.
+ */
+interface Props {
+  onImport: (input: ImportSongInput) => Promise<ImportSongResult>;
+  onImported: (song: Song) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Screen for importing an audio file and its lyric file from device storage.
+ * Shows validation errors (unreadable audio, lyric parse errors) inline.
+ *
+ * @param onImport Performs the import and returns the result
+ * @param onImported Callback function when the song was added to the library
+ * @param onCancel Callback function to go back without importing
+ */
+export const SongImporter: React.FC<Props> = ({ onImport, onImported, onCancel }) => {
+  const [audio, setAudio] = useState<PickedFile | null>(null);
+  const [lyrics, setLyrics] = useState<PickedFile | null>(null);
+  const [melody, setMelody] = useState<PickedFile | null>(null);
+  const [title, setTitle] = useState('');
+  const [artist, setArtist] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  /**
+   * Opens the system file picker and returns the chosen file.
+   */
+  const pickFile = async (type: string): Promise<PickedFile | null> => {
+    const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true });
+    if (result.canceled || !result.assets[0]) return null;
+    return { uri: result.assets[0].uri, name: result.assets[0].name };
+  };
+
+  const pickAudio = async () => {
+    const file = await pickFile('audio/*');
+    if (file) setAudio(file);
+  };
+
+  const pickLyrics = async () => {
+    // Lyric files (SRT, LRC, WebVTT, ASS) have no registered MIME type on most devices
+    const file = await pickFile('*/*');
+    if (!file) return;
+    setLyrics(file);
+
+    const suggestion = await suggestSongInfo(file);
+    if (!title) setTitle(suggestion.title);
+    if (!artist) setArtist(suggestion.artist);
+  };
+
+  const pickMelody = async () => {
+    const file = await pickFile('application/json');
+    if (file) setMelody(file);
+  };
+
+  const handleImport = async () => {
+    if (!audio || !lyrics) return;
+    setImporting(true);
+    setErrors([]);
+
+    const result = await onImport({ audio, lyrics, melody, title, artist });
+    setImporting(false);
+
+    if (result.song) {
+      onImported(result.song);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.heading}>Import Song</Text>
+
+      <TouchableOpacity style={styles.pickButton} onPress={pickAudio}>
+        <Ionicons name="musical-note" size={20} color="#fff" style={styles.icon} />
+        <Text style={styles.pickText} numberOfLines={1}>{audio ? audio.name : 'Choose audio file'}</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.pickButton} onPress={pickLyrics}>
+        <Ionicons name="document-text-outline" size={20} color="#fff" style={styles.icon} />
+        <Text style={styles.pickText} numberOfLines={1}>{lyrics ? lyrics.name : 'Choose lyrics (.srt / .lrc / .vtt / .ass)'}</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.pickButton} onPress={pickMelody}>
+        <Ionicons name="pulse-outline" size={20} color="#fff" style={styles.icon} />
+        <Text style={styles.pickText} numberOfLines={1}>{melody ? melody.name : 'Reference melody (.json, optional)'}</Text>
+      </TouchableOpacity>
+
+      <TextInput
+        style={styles.input}
+        value={title}
+        onChangeText={setTitle}
+        placeholder="Title"
+        placeholderTextColor="rgba(255,255,255,0.4)"
+      />
+      <TextInput
+        style={styles.input}
+        value={artist}
+        onChangeText={setArtist}
+        placeholder="Artist"
+        placeholderTextColor="rgba(255,255,255,0.4)"
+      />
+
+      {errors.length > 0 && (
+        <View style={styles.errorBox}>
+          {errors.map((message, index) => (
+            <Text key={index} style={styles.errorText}>• {message}</Text>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.importButton, (!audio || !lyrics || importing) && styles.disabled]}
+        onPress={handleImport}
+        disabled={!audio || !lyrics || importing}
+      >
+        {importing ? (
+          <ActivityIndicator color="#0f0c29" />
+        ) : (
+          <Text style={styles.importText}>Add to Library</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={importing}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  heading: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 15,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  icon: {
+    marginRight: 10,
+  },
+  pickText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  errorBox: {
+    backgroundColor: 'rgba(255, 82, 82, 0.15)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#FFAB91',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  importButton: {
+    backgroundColor: '#FFD740',
+    borderRadius: 50,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  importText: {
+    color: '#0f0c29',
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 15,
+  },
+  cancelText: {
+    color: '#B0BEC5',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
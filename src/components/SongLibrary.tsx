@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Song, formatDuration } from '../utils/songCatalog';
+
+/**
+ * Props for the SongLibrary component.
+ */
+interface Props {
+  songs: Song[];
+  loading: boolean;
+  onSelect: (song: Song) => void;
+  onImport: () => void;
+  onShowHistory: () => void;
+}
+
+/**
+ * Library screen listing every song available for a karaoke session.
+ *
+ * @param songs Songs of the catalog
+ * @param loading Whether the catalog is still loading
+ * @param onSelect Callback function when a song is picked
+ * @param onImport Callback function to open the import screen
+ * @param onShowHistory Callback function to open the performance history
+ */
+export const SongLibrary: React.FC<Props> = ({ songs, loading, onSelect, onImport, onShowHistory }) => {
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color="#FFD740" />
+        <Text style={styles.emptyText}>Loading Library...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.heading}>Choose a Song</Text>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity style={styles.historyButton} onPress={onShowHistory}>
+            <Ionicons name="time-outline" size={20} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.importButton} onPress={onImport}>
+            <Ionicons name="add" size={18} color="#0f0c29" />
+            <Text style={styles.importText}>Import</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={songs}
+        keyExtractor={song => song.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>No songs in your library yet.</Text>}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.songRow} onPress={() => onSelect(item)}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="musical-notes" size={20} color="#fff" />
+            </View>
+            <View style={styles.songInfo}>
+              <Text style={styles.songTitle} numberOfLines={1}>{item.title}</Text>
+              <Text style={styles.songArtist} numberOfLines={1}>{item.artist}</Text>
+            </View>
+            <Text style={styles.duration}>{formatDuration(item.durationMillis)}</Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+    paddingHorizontal: 20,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 15,
+  },
+  heading: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  historyButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFD740',
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  importText: {
+    color: '#0f0c29',
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  list: {
+    paddingBottom: 40,
+  },
+  songRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  songInfo: {
+    flex: 1,
+  },
+  songTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  songArtist: {
+    fontSize: 13,
+    color: '#B0BEC5',
+    marginTop: 2,
+  },
+  duration: {
+    fontSize: 12,
+    color: '#B0BEC5',
+    fontWeight: '500',
+    marginLeft: 10,
+  },
+  emptyText: {
+    color: '#B0BEC5',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,144 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { AudioPlayer } from './AudioPlayer';
+import { LyricLine } from '../utils/srtParser';
+import { CompChoices, RecordedTake, getCompLines } from '../utils/takeComping';
+
+/**
+ * Props for the TakeComparison component.
+ */
+interface Props {
+  takes: RecordedTake[];
+  lyrics: LyricLine[];
+  choices: CompChoices;
+  onChoose: (lineIds: string[], take: number) => void;
+}
+
+/**
+ * Side-by-side players for the takes of a session and a take picker per lyric line.
+ * The combined vocal uses the chosen take for every line.
+ *
+ * @param takes Recorded takes, oldest first
+ * @param lyrics Lyric lines of the song
+ * @param choices Chosen take per line
+ * @param onChoose Chooses a take for the given lines
+ */
+export const TakeComparison: React.FC<Props> = ({ takes, lyrics, choices, onChoose }) => {
+  const lines = getCompLines(lyrics);
+  const defaultTake = takes.length - 1;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Takes</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.takeRow}>
+        {takes.map((take, index) => (
+          <View key={take.id} style={styles.takeCard}>
+            <AudioPlayer uri={take.uri} title={`Take ${take.number}`} />
+            <TouchableOpacity style={styles.useAllButton} onPress={() => onChoose(lines.map(line => line.id), index)}>
+              <Text style={styles.useAllText}>Use for all lines</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.heading}>Best Of</Text>
+      <Text style={styles.hint}>Pick the take for each line, the sections are crossfaded.</Text>
+      {lines.map(line => {
+        const chosen = choices[line.id] ?? defaultTake;
+        return (
+          <View key={line.id} style={styles.lineRow}>
+            <Text style={styles.lineText} numberOfLines={1}>{line.text.replace(/\n/g, ' ')}</Text>
+            {takes.map((take, index) => (
+              <TouchableOpacity
+                key={take.id}
+                style={[styles.chip, chosen === index && styles.chipActive]}
+                onPress={() => onChoose([line.id], index)}
+              >
+                <Text style={[styles.chipText, chosen === index && styles.chipTextActive]}>{take.number}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 24,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  heading: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  takeRow: {
+    gap: 12,
+    paddingBottom: 15,
+  },
+  takeCard: {
+    width: 250,
+    backgroundColor: 'rgba(0,0,0,0.2)',
+    borderRadius: 16,
+    padding: 10,
+  },
+  useAllButton: {
+    alignSelf: 'center',
+    marginTop: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  useAllText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    marginBottom: 10,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.08)',
+  },
+  lineText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+  },
+  chip: {
+    width: 30,
+    height: 26,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chipActive: {
+    backgroundColor: '#FFD740',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#0f0c29',
+  },
+});
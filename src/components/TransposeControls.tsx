@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TransposeSettings, TRANSPOSE_LIMITS } from '../utils/transpose';
+
+/**
+ * Props for the TransposeControls component.
+ */
+interface Props {
+  settings: TransposeSettings;
+  onChange: (changes: Partial<TransposeSettings>) => void;
+}
+
+/**
+ * Key and tempo steppers for the backing track, shown before a session starts.
+ *
+ * @param settings Current key and tempo
+ * @param onChange Called with the changed setting
+ */
+export const TransposeControls: React.FC<Props> = ({ settings, onChange }) => {
+  const { semitones, tempo } = TRANSPOSE_LIMITS;
+
+  const stepKey = (delta: number) => {
+    onChange({ semitones: Math.min(semitones.max, Math.max(semitones.min, settings.semitones + delta)) });
+  };
+
+  const stepTempo = (delta: number) => {
+    // Round to the step so repeated presses don't accumulate float errors
+    const next = Math.round((settings.tempo + delta) / tempo.step) * tempo.step;
+    onChange({ tempo: Math.min(tempo.max, Math.max(tempo.min, Number(next.toFixed(2)))) });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>Key</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => stepKey(-1)}>
+          <Ionicons name="remove" size={16} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.value}>
+          {settings.semitones === 0 ? 'Original' : `${settings.semitones > 0 ? '+' : ''}${settings.semitones} st`}
+        </Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => stepKey(1)}>
+          <Ionicons name="add" size={16} color="#fff" />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Tempo</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => stepTempo(-tempo.step)}>
+          <Ionicons name="remove" size={16} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.value}>{Math.round(settings.tempo * 100)}%</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => stepTempo(tempo.step)}>
+          <Ionicons name="add" size={16} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginBottom: 25,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  label: {
+    width: 60,
+    color: '#B0BEC5',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stepButton: {
+    width: 36,
+    height: 30,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  value: {
+    width: 90,
+    textAlign: 'center',
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
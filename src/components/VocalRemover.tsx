@@ -0,0 +1,213 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Ionicons } from '@expo/vector-icons';
+import { Song } from '../utils/songCatalog';
+import { VocalRemovalSettings } from '../utils/vocalRemoval';
+import { VocalPreviewMode } from '../hooks/useVocalRemoval';
+
+/**
+ * Props for the VocalRemover component.
+ */
+interface Props {
+  song: Song;
+  settings: VocalRemovalSettings;
+  preview: VocalPreviewMode | null;
+  onStrengthChange: (strength: number) => void;
+  onPlay: (mode: VocalPreviewMode) => void;
+  onStop: () => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Screen that turns a full song into a backing track.
+ * Compare the original (A) with the version without vocals (B), tune the strength and save.
+ *
+ * @param song The song with vocals
+ * @param settings Current vocal removal settings
+ * @param preview Version playing, null when stopped
+ * @param onStrengthChange Called while the strength slider moves
+ * @param onPlay Plays or switches to a version
+ * @param onStop Stops the preview
+ * @param onSave Renders and saves the backing track
+ * @param onClose Leaves without saving
+ */
+export const VocalRemover: React.FC<Props> = ({
+  song,
+  settings,
+  preview,
+  onStrengthChange,
+  onPlay,
+  onStop,
+  onSave,
+  onClose
+}) => {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Remove Vocals</Text>
+      <Text style={styles.songTitle}>{song.title}</Text>
+      <Text style={styles.hint}>
+        Centered vocals are cancelled; bass, drums and stereo instruments stay in.
+        Works best with studio recordings.
+      </Text>
+
+      <View style={styles.abRow}>
+        {(['original', 'processed'] as VocalPreviewMode[]).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.abButton, preview === mode && styles.abButtonActive]}
+            onPress={() => onPlay(mode)}
+          >
+            <Text style={[styles.abLetter, preview === mode && styles.abTextActive]}>{mode === 'original' ? 'A' : 'B'}</Text>
+            <Text style={[styles.abLabel, preview === mode && styles.abTextActive]}>
+              {mode === 'original' ? 'Original' : 'Without Vocals'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {preview && (
+        <TouchableOpacity style={styles.stopButton} onPress={onStop}>
+          <Ionicons name="stop" size={16} color="#fff" style={{ marginRight: 6 }} />
+          <Text style={styles.stopText}>Stop Preview</Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.strengthRow}>
+        <Text style={styles.label}>Strength</Text>
+        <Text style={styles.value}>{Math.round(settings.strength * 100)}%</Text>
+      </View>
+      <Slider
+        style={styles.slider}
+        minimumValue={0}
+        maximumValue={1}
+        step={0.05}
+        value={settings.strength}
+        onValueChange={onStrengthChange}
+        minimumTrackTintColor="#FFD740"
+        maximumTrackTintColor="rgba(255,255,255,0.3)"
+        thumbTintColor="#FFD740"
+      />
+
+      <TouchableOpacity style={styles.saveButton} onPress={onSave}>
+        <Ionicons name="save-outline" size={20} color="#0f0c29" style={{ marginRight: 8 }} />
+        <Text style={styles.saveText}>Save as Backing Track</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+        <Text style={styles.cancelText}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+    paddingHorizontal: 30,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  heading: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  songTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFD740',
+    marginTop: 4,
+  },
+  hint: {
+    color: '#B0BEC5',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 10,
+    marginBottom: 25,
+    lineHeight: 19,
+  },
+  abRow: {
+    flexDirection: 'row',
+    gap: 15,
+  },
+  abButton: {
+    width: 130,
+    paddingVertical: 15,
+    borderRadius: 20,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  abButtonActive: {
+    backgroundColor: '#FFD740',
+    borderColor: '#FFD740',
+  },
+  abLetter: {
+    color: '#fff',
+    fontSize: 28,
+    fontWeight: '800',
+  },
+  abLabel: {
+    color: '#B0BEC5',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  abTextActive: {
+    color: '#0f0c29',
+  },
+  stopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 8,
+  },
+  stopText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  strengthRow: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 25,
+  },
+  label: {
+    color: '#B0BEC5',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  value: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  slider: {
+    width: '100%',
+    height: 40,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 25,
+    paddingVertical: 15,
+    paddingHorizontal: 30,
+    borderRadius: 30,
+    backgroundColor: '#FFD740',
+  },
+  saveText: {
+    color: '#0f0c29',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    marginTop: 10,
+    padding: 10,
+  },
+  cancelText: {
+    color: '#B0BEC5',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
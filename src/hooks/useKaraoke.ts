@@ -1,25 +1,123 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { AppState } from 'react-native';
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
-import { Asset } from 'expo-asset';
+import { Song } from '../utils/songCatalog';
+import { LyricLine, LyricsDiagnostic } from '../utils/srtParser';
+import { parseLyricsWithDiagnostics } from '../utils/lyricsParser';
+import { MixSettings, DEFAULT_MIX_SETTINGS } from '../utils/mixSettings';
+import { AudioMixerHandle, MixProgress, MIX_CANCELLED } from '../components/AudioMixer';
+import { CompChoices, RecordedTake, VoiceSegment, buildCompRegions } from '../utils/takeComping';
+import { DuetSetup, DEFAULT_DUET } from '../utils/duet';
+import { MelodyNote, PerformanceScore, PitchTrack, parseMelody, scorePerformance } from '../utils/pitchScoring';
+import { ExportFormatId, getExportFormat } from '../utils/exportProfiles';
+import { SESSION_RECORDING_OPTIONS } from '../utils/recordingOptions';
+import { savePerformance, replacePerformanceMix } from '../utils/performances';
+import { LoopSettings, DEFAULT_LOOP, createLoopRange, createLineLoopRange, getLoopStart } from '../utils/loopRange';
+import { TransposeSettings, DEFAULT_TRANSPOSE, isIdentityTranspose, scaleLyrics, transposeMelody } from '../utils/transpose';
+import {
+  LyricSync,
+  DEFAULT_LYRIC_SYNC,
+  applyLyricSync,
+  limitLyricSync,
+  findNearestLine,
+  syncLineAt,
+  loadLyricSync,
+  saveLyricSync
+} from '../utils/lyricSync';
+import {
+  LyricBreakSettings,
+  DEFAULT_LYRIC_BREAKS,
+  applyLyricBreaks,
+  limitLyricBreaks,
+  loadLyricBreaks,
+  saveLyricBreaks
+} from '../utils/lyricBreaks';
+
+/**
+ * One recorded pass of a looped section.
+ */
+export interface LoopTake {
+  id: string;
+  uri: string;
+  pass: number; // 1-based number of the repeat
+  startMs: number; // Song position where the take starts (including the pre-roll)
+  endMs: number;
+}
 
 /**
  * State interface for the Karaoke session.
  */
 export interface KaraokeState {
   isRecording: boolean;
+  isPaused: boolean; // The session is recording but paused, lyrics and meter are frozen
+  isRehearsing: boolean; // The backing track plays with lyrics, nothing is recorded
   isPlaying: boolean;
   positionMillis: number;
   durationMillis: number;
   processing: boolean;
+  progress: MixProgress | null; // Stage of the running mixer job
   mixedFileUri: string | null;
   voiceFileUri: string | null;
   error: string | null;
-  songBase64: string | null;
-  voiceBase64: string | null;
   metering: number;
+  selectedSong: Song | null;
+  lyrics: LyricLine[];
+  lyricsLoaded: boolean;
+  lyricsError: string | null;
+  lyricsDiagnostics: LyricsDiagnostic[]; // Problems found in the lyric file
+  melody: MelodyNote[] | null; // Reference melody of the selected song, null when it has no melody file
+  score: PerformanceScore | null; // Overall score is null without a melody
+  mixReady: boolean; // The mixer has decoded the performance and can preview/render it
+  isPreviewing: boolean;
+  transpose: TransposeSettings; // Key and tempo of the backing track
+  transposing: boolean; // The shifted backing track is being rendered
+  loop: LoopSettings; // A/B repeat of a section, for rehearsals and recordings
+  loopTakes: LoopTake[]; // Recorded passes of a looped session
+  performanceId: string | null; // History entry of the rendered mix
+  takes: RecordedTake[]; // Takes of the current song session
+  compChoices: CompChoices; // Chosen take per lyric line
+  comping: boolean; // The vocal is being reassembled from the takes
+  duet: DuetSetup; // Singers and their parts when the song is sung as a duet
+  lyricSync: LyricSync; // Offset and stretch of the lyric file against the song file
+  lyricBreaks: LyricBreakSettings; // Which gaps between lines are shown as instrumental breaks
 }
 
+const initialState: KaraokeState = {
+  isRecording: false,
+  isPaused: false,
+  isRehearsing: false,
+  isPlaying: false,
+  positionMillis: 0,
+  durationMillis: 0,
+  processing: false,
+  progress: null,
+  mixedFileUri: null,
+  voiceFileUri: null,
+  error: null,
+  metering: -160,
+  selectedSong: null,
+  lyrics: [],
+  lyricsLoaded: false,
+  lyricsError: null,
+  lyricsDiagnostics: [],
+  melody: null,
+  score: null,
+  mixReady: false,
+  isPreviewing: false,
+  transpose: DEFAULT_TRANSPOSE,
+  transposing: false,
+  loop: DEFAULT_LOOP,
+  loopTakes: [],
+  performanceId: null,
+  takes: [],
+  compChoices: {},
+  comping: false,
+  duet: DEFAULT_DUET,
+  lyricSync: DEFAULT_LYRIC_SYNC,
+  lyricBreaks: DEFAULT_LYRIC_BREAKS,
+};
+
 /**
  * Custom hook to manage the Karaoke session logic.
  * Handles audio recording, playback, synchronization, and mixing preparation.
@@ -27,26 +125,42 @@ export interface KaraokeState {
  * @returns Karaoke state and control functions
  */
 export const useKaraoke = () => {
-  const [state, setState] = useState<KaraokeState>({
-    isRecording: false,
-    isPlaying: false,
-    positionMillis: 0,
-    durationMillis: 0,
-    processing: false,
-    mixedFileUri: null,
-    voiceFileUri: null,
-    error: null,
-    songBase64: null,
-    voiceBase64: null,
-    metering: -160,
-  });
+  const [state, setState] = useState<KaraokeState>(initialState);
 
   // References (Critical for automatic stopping and cleanup)
   const recordingRef = useRef<Audio.Recording | null>(null);
   const soundRef = useRef<Audio.Sound | null>(null);
+  // The song of the running session (read from status callbacks)
+  const songRef = useRef<Song | null>(null);
+  // Handle of the hidden mixer WebView
+  const mixerRef = useRef<AudioMixerHandle>(null);
+  // Backing track played in the running session (the shifted render when transposed)
+  const backingUriRef = useRef<string | null>(null);
+  // Where each stretch of the recording starts on the song timeline (one per resume)
+  const segmentsRef = useRef<VoiceSegment[]>([]);
+  const pausedRef = useRef(false);
+  // Whether the loaded sound belongs to a rehearsal (read from status callbacks)
+  const rehearsingRef = useRef(false);
+  // Loop settings and takes read from status callbacks
+  const loopRef = useRef<LoopSettings>(DEFAULT_LOOP);
+  const loopTakesRef = useRef<LoopTake[]>([]);
+  const wrappingRef = useRef(false);
+  // Takes and the comp the mixer has loaded, read from async callbacks
+  const takesRef = useRef<RecordedTake[]>([]);
+  const compChoicesRef = useRef<CompChoices>({});
+  // Settings of the render in progress, the file extension depends on its format
+  const renderSettingsRef = useRef<MixSettings | null>(null);
+  // Pending write of the lyric sync, so quick adjustments are stored once
+  const syncSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [permissionResponse, requestPermission] = Audio.usePermissions();
 
+  // Lyrics corrected to the song file and timed against the backing track at the selected tempo
+  const lyrics = useMemo(
+    () => scaleLyrics(applyLyricSync(state.lyrics, state.lyricSync), state.transpose.tempo),
+    [state.lyrics, state.lyricSync, state.transpose.tempo]
+  );
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -55,6 +169,292 @@ export const useKaraoke = () => {
     };
   }, []);
 
+  // Pause the session when the app is interrupted (e.g. by a phone call)
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState !== 'active') pauseSession();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  /**
+   * Selects the song for the next session and loads its lyrics.
+   *
+   * @param song The song picked from the library
+   */
+  const selectSong = async (song: Song) => {
+    songRef.current = song;
+    loopRef.current = DEFAULT_LOOP;
+    setState(prev => ({
+      ...prev,
+      selectedSong: song,
+      melody: null,
+      lyrics: [],
+      lyricsLoaded: false,
+      lyricsError: null,
+      lyricsDiagnostics: [],
+      transpose: DEFAULT_TRANSPOSE,
+      loop: DEFAULT_LOOP,
+      lyricSync: DEFAULT_LYRIC_SYNC
+    }));
+
+    try {
+      const lyricSync = await loadLyricSync(song.id);
+      if (songRef.current?.id === song.id) setState(prev => ({ ...prev, lyricSync }));
+    } catch (e: any) {
+      console.log('Error loading lyric sync:', e);
+    }
+
+    let lyricBreaks = DEFAULT_LYRIC_BREAKS;
+    try {
+      lyricBreaks = await loadLyricBreaks();
+      if (songRef.current?.id === song.id) setState(prev => ({ ...prev, lyricBreaks }));
+    } catch (e: any) {
+      console.log('Error loading break settings:', e);
+    }
+
+    try {
+      const response = await fetch(song.lyricsUri);
+      const content = await response.text();
+      const { lyrics, diagnostics } = parseLyricsWithDiagnostics(content, song.lyricsUri, lyricBreaks.thresholdMs);
+
+      // Ignore the result if another song was selected in the meantime
+      if (songRef.current?.id !== song.id) return;
+      setState(prev => ({ ...prev, lyrics, lyricsLoaded: true, lyricsDiagnostics: diagnostics }));
+    } catch (e: any) {
+      console.log('Error loading lyrics:', e);
+      if (songRef.current?.id !== song.id) return;
+      const message = `The lyric file could not be read: ${e.message}`;
+      setState(prev => ({ ...prev, lyricsError: message, lyricsDiagnostics: [{ severity: 'error', message }] }));
+    }
+
+    if (song.melodyUri) {
+      try {
+        const response = await fetch(song.melodyUri);
+        const melody = parseMelody(await response.text());
+        if (songRef.current?.id === song.id) setState(prev => ({ ...prev, melody }));
+      } catch (e: any) {
+        // The performance is shown without a pitch score
+        console.log('Error loading melody:', e);
+      }
+    }
+  };
+
+  /**
+   * Clears the song selection to go back to the library.
+   */
+  const clearSong = () => {
+    songRef.current = null;
+    setState(prev => ({ ...prev, selectedSong: null, melody: null, lyrics: [], lyricsLoaded: false, lyricsError: null, lyricsDiagnostics: [] }));
+  };
+
+  /**
+   * Changes the key and tempo for the next session.
+   * A tempo change moves the song timeline, so the loop section is cleared.
+   */
+  const setTranspose = (changes: Partial<TransposeSettings>) => {
+    if (changes.tempo !== undefined && changes.tempo !== state.transpose.tempo) {
+      applyLoop({ ...loopRef.current, range: null, pointA: null });
+    }
+    setState(prev => ({ ...prev, transpose: { ...prev.transpose, ...changes } }));
+  };
+
+  /**
+   * Changes the lyric offset and stretch of the selected song, also while it plays.
+   * The correction is stored for the song shortly after the last change.
+   */
+  const setLyricSync = (changes: Partial<LyricSync>) => {
+    const song = songRef.current;
+    if (!song) return;
+
+    const lyricSync = limitLyricSync({ ...state.lyricSync, ...changes });
+    setState(prev => ({ ...prev, lyricSync }));
+
+    if (syncSaveTimerRef.current) clearTimeout(syncSaveTimerRef.current);
+    syncSaveTimerRef.current = setTimeout(() => {
+      syncSaveTimerRef.current = null;
+      saveLyricSync(song.id, lyricSync).catch(e => console.error('Failed to save lyric sync', e));
+    }, 500);
+  };
+
+  /**
+   * Changes which gaps between lines are shown as instrumental breaks, also while the song plays.
+   * The setting is kept for all songs.
+   */
+  const setLyricBreaks = (changes: Partial<LyricBreakSettings>) => {
+    const lyricBreaks = limitLyricBreaks({ ...state.lyricBreaks, ...changes });
+    setState(prev => ({ ...prev, lyricBreaks, lyrics: applyLyricBreaks(prev.lyrics, lyricBreaks) }));
+    saveLyricBreaks(lyricBreaks).catch(e => console.error('Failed to save break settings', e));
+  };
+
+  /**
+   * Moves the lyrics so a line starts at the current playback position ("sync to this line now").
+   * Without a line, the line starting closest to the position is used.
+   *
+   * @param line A line of the displayed lyrics
+   */
+  const syncLineNow = async (line?: LyricLine) => {
+    if (!soundRef.current) return;
+
+    try {
+      const status = await soundRef.current.getStatusAsync();
+      if (!status.isLoaded) return;
+
+      // Position on the timeline of the original song file
+      const songTime = status.positionMillis * state.transpose.tempo;
+      const target = line
+        ? state.lyrics.find(candidate => candidate.id === line.id)
+        : findNearestLine(state.lyrics, state.lyricSync, songTime);
+      if (!target || target.isInstrumental) return;
+
+      setLyricSync(syncLineAt(state.lyricSync, target, songTime));
+    } catch (err: any) {
+      console.error('Lyric sync error', err);
+    }
+  };
+
+  /**
+   * Changes the duet setup of the next session.
+   */
+  const setDuet = (duet: DuetSetup) => {
+    setState(prev => ({ ...prev, duet }));
+  };
+
+  /**
+   * Stores new loop settings and applies the speed to the playing sound.
+   * The loop is fixed while recording: moving the song under a running take would misplace it,
+   * so loop edits are only made before a session or during a rehearsal.
+   */
+  const applyLoop = (loop: LoopSettings) => {
+    if (state.isRecording) return;
+    const rateChanged = loop.rate !== loopRef.current.rate;
+    loopRef.current = loop;
+    setState(prev => ({ ...prev, loop }));
+    if (rateChanged && soundRef.current) {
+      soundRef.current.setRateAsync(loop.rate, true).catch(e => console.error('Rate error', e));
+    }
+  };
+
+  /**
+   * Sets loop point A, or point B when A is already set.
+   * Completing the range jumps to the start of the loop.
+   *
+   * @param positionMillis Position of the point in the backing track
+   */
+  const setLoopPoint = (positionMillis: number) => {
+    const loop = loopRef.current;
+    if (loop.pointA === null) {
+      applyLoop({ ...loop, range: null, pointA: positionMillis });
+      return;
+    }
+    const range = createLoopRange(loop.pointA, positionMillis);
+    applyLoop({ ...loop, range, pointA: range ? null : loop.pointA });
+    if (range) seekTo(getLoopStart({ ...loop, range }));
+  };
+
+  /**
+   * Loops a run of lyric lines.
+   *
+   * @param first One end of the selection
+   * @param last The other end of the selection
+   */
+  const setLoopLines = (first: LyricLine, last: LyricLine) => {
+    const loop = { ...loopRef.current, range: createLineLoopRange(first, last), pointA: null };
+    applyLoop(loop);
+    if (loop.range) seekTo(getLoopStart(loop));
+  };
+
+  /**
+   * Changes the pre-roll or the speed of the loop.
+   */
+  const updateLoop = (changes: Partial<Pick<LoopSettings, 'preRollMs' | 'rate'>>) => {
+    applyLoop({ ...loopRef.current, ...changes });
+  };
+
+  /**
+   * Removes the loop section, the song plays through again.
+   */
+  const clearLoop = () => {
+    applyLoop({ ...loopRef.current, range: null, pointA: null });
+  };
+
+  /**
+   * Jumps back to the start of the loop.
+   * While recording, the finished pass is kept as a take and a new recording starts.
+   */
+  const wrapLoop = async () => {
+    const sound = soundRef.current;
+    const loop = loopRef.current;
+    if (!sound || !loop.range) return;
+
+    try {
+      const loopStart = getLoopStart(loop);
+      if (recordingRef.current) {
+        await sound.pauseAsync();
+        await finishLoopTake(loop.range.endMs);
+        const newRecording = await prepareRecording();
+        recordingRef.current = newRecording;
+        await sound.setPositionAsync(loopStart);
+        await newRecording.startAsync();
+        await sound.playAsync();
+      } else {
+        await sound.setPositionAsync(loopStart);
+      }
+    } catch (err: any) {
+      console.error('Loop error', err);
+    }
+  };
+
+  /**
+   * Stops the recording of the current loop pass and stores it as a take.
+   *
+   * @param endMs Song position where the pass ended
+   * @returns URI of the take, if anything was recorded
+   */
+  const finishLoopTake = async (endMs: number): Promise<string | null> => {
+    const recording = recordingRef.current;
+    if (!recording) return null;
+    recordingRef.current = null;
+
+    await recording.stopAndUnloadAsync();
+    const uri = recording.getURI();
+    if (!uri) return null;
+
+    const pass = loopTakesRef.current.length + 1;
+    const take: LoopTake = { id: `take-${Date.now()}`, uri, pass, startMs: getLoopStart(loopRef.current), endMs };
+    loopTakesRef.current = [...loopTakesRef.current, take];
+    setState(prev => ({ ...prev, loopTakes: loopTakesRef.current }));
+    return uri;
+  };
+
+  /**
+   * Returns the backing track for the given key and tempo.
+   * Shifted versions are rendered by the mixer once and cached per song and setting.
+   *
+   * @param song The selected song
+   * @param transpose Key and tempo change
+   * @returns URI of the audio file to play and mix
+   */
+  const prepareBackingTrack = async (song: Song, transpose: TransposeSettings): Promise<string> => {
+    if (isIdentityTranspose(transpose)) return song.audioUri;
+
+    const cachedUri = FileSystem.cacheDirectory +
+      `backing_${song.id}_${transpose.semitones}_${Math.round(transpose.tempo * 100)}.wav`;
+    const info = await FileSystem.getInfoAsync(cachedUri);
+    if (info.exists) return cachedUri;
+
+    if (!mixerRef.current) throw new Error('Mixer is not ready');
+
+    setState(prev => ({ ...prev, processing: true, transposing: true }));
+    try {
+      const shiftedUri = await mixerRef.current.transposeTrack(song.audioUri, transpose);
+      await FileSystem.moveAsync({ from: shiftedUri, to: cachedUri });
+      return cachedUri;
+    } finally {
+      setState(prev => ({ ...prev, processing: false, transposing: false, progress: null }));
+    }
+  };
+
   /**
    * Updates state based on playback status.
    * Automatically stops the session when the song finishes.
@@ -68,8 +468,18 @@ export const useKaraoke = () => {
         isPlaying: status.isPlaying,
       }));
 
-      // Stop recording when the song finishes
-      if (status.didJustFinish) {
+      // Repeat the loop section when playback passes point B (or the song ends inside it)
+      const range = loopRef.current.range;
+      if (range && (status.positionMillis >= range.endMs || status.didJustFinish) && !wrappingRef.current) {
+        wrappingRef.current = true;
+        wrapLoop().finally(() => {
+          wrappingRef.current = false;
+        });
+        return;
+      }
+
+      // Stop recording when the song finishes, a rehearsal just stays at the end
+      if (status.didJustFinish && !rehearsingRef.current) {
         stopSession();
       }
     }
@@ -96,6 +506,12 @@ export const useKaraoke = () => {
    * 5. Starts both simultaneously
    */
   const startSession = async () => {
+    const song = songRef.current;
+    if (!song) {
+      setState(prev => ({ ...prev, error: 'Please select a song first' }));
+      return;
+    }
+
     try {
       setState(prev => ({
         ...prev,
@@ -103,8 +519,14 @@ export const useKaraoke = () => {
         mixedFileUri: null,
         voiceFileUri: null,
         processing: false,
-        metering: -160
+        metering: -160,
+        score: null,
+        mixReady: false,
+        isPreviewing: false,
+        loopTakes: [],
+        performanceId: null
       }));
+      mixerRef.current?.release();
 
       if (!permissionResponse || permissionResponse.status !== 'granted') {
         const perm = await requestPermission();
@@ -122,27 +544,22 @@ export const useKaraoke = () => {
         shouldDuckAndroid: true,
       });
 
-      const recordingOptions: Audio.RecordingOptions = {
-        ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
-        isMeteringEnabled: true,
-        android: {
-          ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
-          // @ts-ignore: audioSource is not in the type definition but required for AEC
-          audioSource: 7, // VOICE_COMMUNICATION (AEC)
-        },
-        ios: {
-          ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
-          audioQuality: Audio.IOSAudioQuality.HIGH,
-        }
-      };
+      const backingUri = await prepareBackingTrack(song, state.transpose);
+      backingUriRef.current = backingUri;
 
-      const newRecording = new Audio.Recording();
-      await newRecording.prepareToRecordAsync(recordingOptions);
-      newRecording.setOnRecordingStatusUpdate(onRecordingStatusUpdate);
+      const newRecording = await prepareRecording();
 
+      const loop = loopRef.current;
       const { sound: newSound } = await Audio.Sound.createAsync(
-        require('../../assets/song.mp3'),
-        { shouldPlay: false }
+        { uri: backingUri },
+        {
+          shouldPlay: false,
+          positionMillis: getLoopStart(loop),
+          // The slowdown only applies to loop takes, a full take has to stay in sync for mixing
+          rate: loop.range ? loop.rate : 1,
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: loop.range ? 100 : 500
+        }
       );
       newSound.setOnPlaybackStatusUpdate(onPlaybackStatusUpdate);
 
@@ -152,6 +569,9 @@ export const useKaraoke = () => {
       // Assign to refs
       recordingRef.current = newRecording;
       soundRef.current = newSound;
+      segmentsRef.current = [{ voiceMs: 0, songMs: 0 }];
+      pausedRef.current = false;
+      loopTakesRef.current = [];
 
       await newRecording.startAsync();
       await newSound.playAsync();
@@ -159,11 +579,173 @@ export const useKaraoke = () => {
       setState(prev => ({ ...prev, isRecording: true, isPlaying: true }));
 
     } catch (err: any) {
+      if (err.message === MIX_CANCELLED) return;
       console.error('Failed to start session', err);
       setState(prev => ({ ...prev, error: err.message }));
     }
   };
 
+  /**
+   * Creates and prepares a microphone recording with echo cancellation.
+   */
+  const prepareRecording = async (): Promise<Audio.Recording> => {
+    const newRecording = new Audio.Recording();
+    await newRecording.prepareToRecordAsync(SESSION_RECORDING_OPTIONS);
+    newRecording.setOnRecordingStatusUpdate(onRecordingStatusUpdate);
+    return newRecording;
+  };
+
+  /**
+   * Starts a rehearsal: plays the backing track with lyrics, without recording.
+   * The microphone permission is not needed.
+   */
+  const startRehearsal = async () => {
+    const song = songRef.current;
+    if (!song) {
+      setState(prev => ({ ...prev, error: 'Please select a song first' }));
+      return;
+    }
+
+    try {
+      setState(prev => ({ ...prev, error: null, positionMillis: 0 }));
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+        playThroughEarpieceAndroid: false,
+        shouldDuckAndroid: true,
+      });
+
+      const backingUri = await prepareBackingTrack(song, state.transpose);
+      const loop = loopRef.current;
+      const { sound: newSound } = await Audio.Sound.createAsync(
+        { uri: backingUri },
+        {
+          shouldPlay: false,
+          positionMillis: getLoopStart(loop),
+          rate: loop.rate,
+          shouldCorrectPitch: true,
+          progressUpdateIntervalMillis: 100
+        }
+      );
+      newSound.setOnPlaybackStatusUpdate(onPlaybackStatusUpdate);
+
+      rehearsingRef.current = true;
+      soundRef.current = newSound;
+      await newSound.playAsync();
+
+      setState(prev => ({ ...prev, isRehearsing: true, isPlaying: true }));
+    } catch (err: any) {
+      if (err.message === MIX_CANCELLED) return;
+      console.error('Failed to start rehearsal', err);
+      setState(prev => ({ ...prev, error: err.message }));
+    }
+  };
+
+  /**
+   * Pauses or continues the rehearsal playback.
+   * At the end of the song playback restarts from the beginning.
+   */
+  const toggleRehearsalPlayback = async () => {
+    const sound = soundRef.current;
+    if (!sound || !rehearsingRef.current) return;
+
+    try {
+      const status = await sound.getStatusAsync();
+      if (!status.isLoaded) return;
+
+      if (status.isPlaying) {
+        await sound.pauseAsync();
+      } else {
+        if (status.durationMillis && status.positionMillis >= status.durationMillis) {
+          await sound.setPositionAsync(0);
+        }
+        await sound.playAsync();
+      }
+    } catch (err: any) {
+      console.error('Rehearsal playback error', err);
+    }
+  };
+
+  /**
+   * Jumps to a position of the rehearsal, e.g. from the scrub bar or a tapped lyric line.
+   * A recording is never moved, the loop is fixed while recording (see applyLoop).
+   *
+   * @param positionMillis Target position in the backing track
+   */
+  const seekTo = async (positionMillis: number) => {
+    if (!soundRef.current || !rehearsingRef.current) return;
+
+    try {
+      const position = Math.max(0, positionMillis);
+      setState(prev => ({ ...prev, positionMillis: position }));
+      await soundRef.current.setPositionAsync(position);
+    } catch (err: any) {
+      console.error('Seek error', err);
+    }
+  };
+
+  /**
+   * Ends the rehearsal and unloads the backing track.
+   */
+  const stopRehearsal = async () => {
+    rehearsingRef.current = false;
+    try {
+      if (soundRef.current) {
+        await soundRef.current.unloadAsync();
+        soundRef.current = null;
+      }
+    } catch (err) {
+      console.error('Failed to stop rehearsal', err);
+    }
+    setState(prev => ({ ...prev, isRehearsing: false, isPlaying: false, positionMillis: 0 }));
+  };
+
+  /**
+   * Pauses the backing track and the recording together.
+   */
+  const pauseSession = async () => {
+    if (!soundRef.current || !recordingRef.current || pausedRef.current) return;
+    pausedRef.current = true;
+
+    try {
+      await Promise.all([soundRef.current.pauseAsync(), recordingRef.current.pauseAsync()]);
+      setState(prev => ({ ...prev, isPaused: true, isPlaying: false }));
+    } catch (err: any) {
+      console.error('Failed to pause session', err);
+      setState(prev => ({ ...prev, error: err.message }));
+    }
+  };
+
+  /**
+   * Resumes the recording and the backing track in the same order the session started them.
+   * The positions of both at this moment are stored, so the mixer can line up the
+   * new stretch of the recording with the song.
+   */
+  const resumeSession = async () => {
+    if (!soundRef.current || !recordingRef.current || !pausedRef.current) return;
+
+    try {
+      const [songStatus, recordingStatus] = await Promise.all([
+        soundRef.current.getStatusAsync(),
+        recordingRef.current.getStatusAsync()
+      ]);
+      segmentsRef.current.push({
+        voiceMs: recordingStatus.durationMillis,
+        songMs: songStatus.isLoaded ? songStatus.positionMillis : 0,
+      });
+
+      await recordingRef.current.startAsync();
+      await soundRef.current.playAsync();
+      pausedRef.current = false;
+      setState(prev => ({ ...prev, isPaused: false, isPlaying: true }));
+    } catch (err: any) {
+      console.error('Failed to resume session', err);
+      setState(prev => ({ ...prev, error: err.message }));
+    }
+  };
+
   /**
    * Stops the current session, unloads audio resources, and prepares for mixing.
    */
@@ -172,10 +754,17 @@ export const useKaraoke = () => {
     if (!soundRef.current && !recordingRef.current) return;
 
     try {
-      setState(prev => ({ ...prev, isPlaying: false, isRecording: false, processing: true, metering: -160 }));
+      pausedRef.current = false;
+      setState(prev => ({ ...prev, isPlaying: false, isRecording: false, isPaused: false, processing: true, metering: -160 }));
 
+      // A looped session keeps its passes as separate takes instead of mixing them
+      const looping = !!loopRef.current.range;
       let voiceUri = '';
-      if (recordingRef.current) {
+      if (looping && recordingRef.current) {
+        const status = soundRef.current ? await soundRef.current.getStatusAsync() : null;
+        const endMs = status?.isLoaded ? status.positionMillis : loopRef.current.range!.endMs;
+        await finishLoopTake(endMs);
+      } else if (recordingRef.current) {
         await recordingRef.current.stopAndUnloadAsync();
         voiceUri = recordingRef.current.getURI() || '';
         recordingRef.current = null; // Clear ref
@@ -187,9 +776,18 @@ export const useKaraoke = () => {
         soundRef.current = null; // Clear ref
       }
 
-      if (voiceUri) {
-        setState(prev => ({ ...prev, voiceFileUri: voiceUri }));
-        await prepareForMixing(voiceUri);
+      if (looping) {
+        setState(prev => ({ ...prev, processing: false }));
+      } else if (voiceUri) {
+        const take: RecordedTake = {
+          id: `take-${Date.now()}`,
+          uri: voiceUri,
+          number: takesRef.current.length + 1,
+          segments: segmentsRef.current
+        };
+        takesRef.current = [...takesRef.current, take];
+        setState(prev => ({ ...prev, voiceFileUri: voiceUri, takes: takesRef.current }));
+        await prepareForMixing();
       } else {
         setState(prev => ({ ...prev, processing: false }));
       }
@@ -206,6 +804,13 @@ export const useKaraoke = () => {
    */
   const reset = async () => {
     try {
+      mixerRef.current?.release();
+      pausedRef.current = false;
+      rehearsingRef.current = false;
+      loopTakesRef.current = [];
+      takesRef.current = [];
+      compChoicesRef.current = {};
+
       // Stop and unload if anything is playing
       if (soundRef.current) {
         await soundRef.current.unloadAsync();
@@ -216,114 +821,288 @@ export const useKaraoke = () => {
         recordingRef.current = null;
       }
 
-      // Reset state to initial values
-      setState({
-        isRecording: false,
-        isPlaying: false,
-        positionMillis: 0,
-        durationMillis: 0,
-        processing: false,
-        mixedFileUri: null,
-        voiceFileUri: null,
-        error: null,
-        songBase64: null,
-        voiceBase64: null,
-        metering: -160,
-      });
+      // Reset state to initial values, keeping the selected song with its lyrics and melody
+      setState(prev => ({
+        ...initialState,
+        selectedSong: prev.selectedSong,
+        melody: prev.melody,
+        lyrics: prev.lyrics,
+        lyricsLoaded: prev.lyricsLoaded,
+        lyricsError: prev.lyricsError,
+        lyricsDiagnostics: prev.lyricsDiagnostics,
+        transpose: prev.transpose,
+        loop: prev.loop,
+        duet: prev.duet,
+        lyricSync: prev.lyricSync,
+        lyricBreaks: prev.lyricBreaks,
+      }));
     } catch (error) {
       console.error("Reset error:", error);
     }
   };
 
   /**
-   * Prepares audio files for mixing by converting them to Base64.
-   * 
+   * Streams the backing track and the recorded voice to the mixer.
+   * The mixer reports back through handleSessionReady once both are decoded.
+   *
    * @param voiceUri URI of the recorded voice file
    */
-  const prepareForMixing = async (voiceUri: string) => {
+  const prepareForMixing = async () => {
     try {
-      const songAsset = Asset.fromModule(require('../../assets/song.mp3'));
-      await songAsset.downloadAsync();
-      const songUri = songAsset.localUri || songAsset.uri;
+      const songUri = backingUriRef.current ?? songRef.current?.audioUri;
 
       if (!songUri) throw new Error('Could not load song asset');
+      if (!mixerRef.current) throw new Error('Mixer is not ready');
 
-      const songResponse = await fetch(songUri);
-      const songBlob = await songResponse.blob();
-      const songB64 = await blobToBase64(songBlob);
+      // Lines without a chosen take are sung by the newest take
+      const takes = takesRef.current;
+      const comp = buildCompRegions(lyrics, compChoicesRef.current, takes.length - 1);
 
-      const voiceResponse = await fetch(voiceUri);
-      const voiceBlob = await voiceResponse.blob();
-      const voiceB64 = await blobToBase64(voiceBlob);
-
-      setState(prev => ({
-        ...prev,
-        songBase64: songB64,
-        voiceBase64: voiceB64,
-        processing: true
-      }));
+      setState(prev => ({ ...prev, processing: true }));
+      await mixerRef.current.loadSession(songUri, takes, comp);
 
     } catch (err: any) {
+      if (err.message === MIX_CANCELLED) return;
       console.error('Preparation error', err);
-      setState(prev => ({ ...prev, error: 'Prep error: ' + err.message, processing: false }));
+      setState(prev => ({ ...prev, error: 'Prep error: ' + err.message, processing: false, progress: null }));
     }
   };
 
   /**
-   * Helper to convert a Blob to a Base64 string.
+   * Callback for when the mixer has decoded the performance.
+   */
+  const handleSessionReady = () => {
+    setState(prev => ({
+      ...prev,
+      mixReady: true,
+      processing: false,
+      comping: false,
+      progress: null
+    }));
+  };
+
+  /**
+   * Chooses the take that sings a set of lyric lines and reassembles the vocal.
+   * The previous mix no longer matches, so it has to be rendered again.
+   *
+   * @param lineIds Lines to change
+   * @param take Index of the chosen take
    */
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64data = reader.result as string;
-        resolve(base64data.split(',')[1]);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
+  const chooseTake = (lineIds: string[], take: number) => {
+    const choices = { ...compChoicesRef.current };
+    lineIds.forEach(id => {
+      choices[id] = take;
     });
+    const previousChoices = compChoicesRef.current;
+    compChoicesRef.current = choices;
+
+    const comp = buildCompRegions(lyrics, choices, takesRef.current.length - 1);
+    const previousComp = buildCompRegions(lyrics, previousChoices, takesRef.current.length - 1);
+    setState(prev => ({ ...prev, compChoices: choices }));
+    if (JSON.stringify(comp) === JSON.stringify(previousComp)) return;
+
+    mixerRef.current?.setComp(comp);
+    setState(prev => ({
+      ...prev,
+      comping: true,
+      processing: true,
+      progress: null,
+      mixedFileUri: null,
+      isPreviewing: false,
+      score: null
+    }));
+  };
+
+  /**
+   * Plays a live preview of the mix, starting just before the first sung line.
+   *
+   * @param settings Mix settings to preview
+   */
+  const startPreview = (settings: MixSettings) => {
+    const firstLine = lyrics.find(line => !line.isInstrumental);
+    const positionSec = firstLine ? Math.max(0, firstLine.startTime - 1000) / 1000 : 0;
+    mixerRef.current?.startPreview(settings, positionSec);
+    setState(prev => ({ ...prev, isPreviewing: true }));
+  };
+
+  /**
+   * Applies changed settings to the running preview.
+   */
+  const updatePreview = (settings: MixSettings) => {
+    if (state.isPreviewing) mixerRef.current?.updatePreview(settings);
+  };
+
+  /**
+   * Stops the live preview.
+   */
+  const stopPreview = () => {
+    mixerRef.current?.stopPreview();
+    setState(prev => ({ ...prev, isPreviewing: false }));
+  };
+
+  /**
+   * Callback for when the preview reached the end of the song or could not start.
+   */
+  const handlePreviewEnded = (error?: string) => {
+    setState(prev => ({ ...prev, isPreviewing: false, ...(error ? { error } : {}) }));
+  };
+
+  /**
+   * Renders the final mix with the given settings.
+   */
+  const renderMix = (settings: MixSettings) => {
+    renderSettingsRef.current = settings;
+    mixerRef.current?.mix(settings);
+    setState(prev => ({ ...prev, isPreviewing: false, processing: true, progress: null }));
+  };
+
+  /**
+   * Callback for progress reports of the mixer.
+   */
+  const handleProgress = (progress: MixProgress) => {
+    setState(prev => prev.processing ? { ...prev, progress } : prev);
+  };
+
+  /**
+   * Cancels the running mixer job.
+   * A cancelled render returns to the result screen, a cancelled backing track render returns to the song screen.
+   * A cancelled preparation drops only the take that was being loaded; the earlier takes
+   * of the session are loaded again, without them it returns to the song screen.
+   */
+  const cancelProcessing = () => {
+    mixerRef.current?.cancel();
+
+    // Only a cancelled preparation drops a take, a backing track render has not recorded one yet
+    const preparing = !state.mixReady && !state.transposing;
+    let takes = takesRef.current;
+    let choices = compChoicesRef.current;
+    if (preparing && takes.length > 0) {
+      takes = takes.slice(0, -1);
+      const dropped = takes.length;
+      choices = Object.fromEntries(Object.entries(choices).filter(([, take]) => take !== dropped));
+    }
+    takesRef.current = takes;
+    compChoicesRef.current = choices;
+
+    setState(prev => ({
+      ...prev,
+      processing: false,
+      transposing: false,
+      comping: false, // A cancelled comp is already assembled, only its score is missing
+      progress: null,
+      voiceFileUri: preparing ? takes[takes.length - 1]?.uri ?? null : prev.voiceFileUri,
+      score: preparing ? null : prev.score,
+      takes,
+      compChoices: choices,
+    }));
+
+    // The mixer session was released for the new take, load the earlier takes again
+    if (preparing && takes.length > 0) prepareForMixing();
   };
 
   /**
    * Callback for when the mixing process is complete.
-   * Saves the mixed file to the document directory.
+   * Moves the mixed file to the document directory, in the format the mixer actually wrote.
+   * Every render gets a new file so players reload it; the previous render is removed.
    */
-  const handleMixComplete = async (mixedBase64: string) => {
+  const handleMixComplete = async (mixedUri: string, formatId: ExportFormatId) => {
     try {
       console.log("Mix completed, saving file...");
-      const outputUri = FileSystem.documentDirectory + 'karaoke_mix.wav';
+      setState(prev => ({ ...prev, progress: { stage: 'saving', percent: null } }));
+      const settings = renderSettingsRef.current ?? DEFAULT_MIX_SETTINGS;
+      const format = getExportFormat(formatId);
+      const song = songRef.current;
+      if (!song) throw new Error('No song selected');
 
-      await FileSystem.writeAsStringAsync(outputUri, mixedBase64, { encoding: 'base64' });
+      // The first render adds the performance to the history, later renders replace its mix and score
+      const score = state.score?.overall ?? null;
+      const performance = state.performanceId
+        ? await replacePerformanceMix(state.performanceId, mixedUri, format.extension, settings, score)
+        : await savePerformance({
+            songId: song.id,
+            songTitle: song.title,
+            songArtist: song.artist,
+            durationMillis: state.durationMillis || song.durationMillis,
+            settings,
+            transpose: state.transpose,
+            score,
+            mixSourceUri: mixedUri,
+            mixExtension: format.extension,
+            voiceUri: state.voiceFileUri,
+          });
 
-      console.log("File saved to:", outputUri);
+      console.log("File saved to:", performance.mixUri);
 
       setState(prev => ({
         ...prev,
-        mixedFileUri: outputUri,
+        mixedFileUri: performance.mixUri,
+        performanceId: performance.id,
         processing: false,
-        songBase64: null,
-        voiceBase64: null
+        progress: null
       }));
     } catch (e: any) {
       console.error("Save error:", e);
-      setState(prev => ({ ...prev, error: 'Save error: ' + e.message, processing: false }));
+      setState(prev => ({ ...prev, error: 'Save error: ' + e.message, processing: false, progress: null }));
     }
   };
 
+
+  /**
+   * Callback for the pitch contours of the performance.
+   * Scores the voice against the reference melody along the lyric timeline,
+   * both moved to the key and tempo that were sung. Without a melody only the voiced lines are measured.
+   */
+  const handlePitchAnalysis = (track: PitchTrack) => {
+    setState(prev => {
+      const melody = prev.melody ? transposeMelody(prev.melody, prev.transpose) : null;
+      const lyrics = scaleLyrics(applyLyricSync(prev.lyrics, prev.lyricSync), prev.transpose.tempo);
+      return { ...prev, score: scorePerformance(track, lyrics, melody) };
+    });
+  };
+
   /**
    * Callback for mixing errors.
    */
   const handleMixError = (msg: string) => {
     console.error("Mixer error from WebView:", msg);
-    setState(prev => ({ ...prev, error: 'Mixer error: ' + msg, processing: false }));
+    setState(prev => ({ ...prev, error: 'Mixer error: ' + msg, processing: false, progress: null }));
   };
 
   return {
     ...state,
+    lyrics,
+    setTranspose,
+    setLyricSync,
+    syncLineNow,
+    setLyricBreaks,
+    setDuet,
     startSession,
+    startRehearsal,
+    toggleRehearsalPlayback,
+    seekTo,
+    stopRehearsal,
+    chooseTake,
+    setLoopPoint,
+    setLoopLines,
+    updateLoop,
+    clearLoop,
+    pauseSession,
+    resumeSession,
     stopSession,
     reset,
+    selectSong,
+    clearSong,
+    mixerRef,
+    startPreview,
+    updatePreview,
+    stopPreview,
+    renderMix,
+    handleSessionReady,
+    handlePreviewEnded,
     handleMixComplete,
+    handleProgress,
+    cancelProcessing,
+    handlePitchAnalysis,
     handleMixError,
     requestPermission
   };
@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from 'react';
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system/legacy';
+import {
+  CalibrationStatus,
+  LatencyMeasurement,
+  createClickTrackBase64,
+  loadLatencyCalibration,
+  saveLatencyCalibration
+} from '../utils/latencyCalibration';
+import { CALIBRATION_RECORDING_OPTIONS } from '../utils/recordingOptions';
+
+/**
+ * State interface for the latency calibration.
+ */
+export interface CalibrationState {
+  status: CalibrationStatus;
+  latencyMs: number | null; // Stored value for this device, null if never calibrated
+  measuredMs: number | null; // Result of the last measurement, not saved yet
+  error: string | null;
+  clickUri: string | null; // Files handed to the mixer for the measurement
+  recordingUri: string | null;
+}
+
+/**
+ * Custom hook for the latency calibration wizard.
+ * Plays a click track, records it back through the microphone and lets
+ * the mixer WebView cross-correlate both signals to find the round-trip offset.
+ *
+ * @returns Calibration state and control functions
+ */
+export const useLatencyCalibration = () => {
+  const [state, setState] = useState<CalibrationState>({
+    status: 'idle',
+    latencyMs: null,
+    measuredMs: null,
+    error: null,
+    clickUri: null,
+    recordingUri: null,
+  });
+
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const clickUriRef = useRef<string | null>(null);
+
+  // Load the stored calibration and clean up on unmount
+  useEffect(() => {
+    loadLatencyCalibration().then(calibration => {
+      if (calibration) setState(prev => ({ ...prev, latencyMs: calibration.latencyMs }));
+    });
+    return () => {
+      if (soundRef.current) soundRef.current.unloadAsync();
+      if (recordingRef.current) recordingRef.current.stopAndUnloadAsync();
+    };
+  }, []);
+
+  /**
+   * Starts the measurement: records the microphone while the click track plays.
+   * Session order is kept (recording first, then playback) so the measured
+   * offset matches what the mixer has to compensate.
+   */
+  const start = async () => {
+    try {
+      setState(prev => ({ ...prev, status: 'recording', measuredMs: null, error: null }));
+
+      const permission = await Audio.requestPermissionsAsync();
+      if (permission.status !== 'granted') {
+        setState(prev => ({ ...prev, status: 'error', error: 'Microphone permission denied' }));
+        return;
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: true,
+        playThroughEarpieceAndroid: false,
+        shouldDuckAndroid: true,
+      });
+
+      const clickUri = FileSystem.cacheDirectory + 'calibration_click.wav';
+      await FileSystem.writeAsStringAsync(clickUri, createClickTrackBase64(), { encoding: 'base64' });
+      clickUriRef.current = clickUri;
+
+      // Echo cancellation would remove the clicks from the recording, so it is turned off here
+      const newRecording = new Audio.Recording();
+      await newRecording.prepareToRecordAsync(CALIBRATION_RECORDING_OPTIONS);
+
+      const { sound: newSound } = await Audio.Sound.createAsync({ uri: clickUri }, { shouldPlay: false });
+      newSound.setOnPlaybackStatusUpdate(status => {
+        if (status.isLoaded && status.didJustFinish) finishRecording();
+      });
+
+      recordingRef.current = newRecording;
+      soundRef.current = newSound;
+
+      await newRecording.startAsync();
+      await newSound.playAsync();
+    } catch (err: any) {
+      console.error('Failed to start calibration', err);
+      await releaseAudio();
+      setState(prev => ({ ...prev, status: 'error', error: err.message }));
+    }
+  };
+
+  /**
+   * Stops and unloads the calibration recording and click track.
+   *
+   * @returns URI of the recording, if any
+   */
+  const releaseAudio = async (): Promise<string | null> => {
+    let uri: string | null = null;
+    if (recordingRef.current) {
+      await recordingRef.current.stopAndUnloadAsync();
+      uri = recordingRef.current.getURI();
+      recordingRef.current = null;
+    }
+    if (soundRef.current) {
+      await soundRef.current.unloadAsync();
+      soundRef.current = null;
+    }
+    return uri;
+  };
+
+  /**
+   * Stops the recording when the click track has finished and hands both signals to the mixer.
+   */
+  const finishRecording = async () => {
+    try {
+      const uri = await releaseAudio();
+      if (!uri) throw new Error('Nothing was recorded');
+
+      setState(prev => ({
+        ...prev,
+        status: 'analyzing',
+        clickUri: clickUriRef.current,
+        recordingUri: uri,
+      }));
+    } catch (err: any) {
+      console.error('Calibration recording error', err);
+      setState(prev => ({ ...prev, status: 'error', error: err.message }));
+    }
+  };
+
+  /**
+   * Callback for the measurement result from the mixer WebView.
+   */
+  const handleLatencyMeasured = (measurement: LatencyMeasurement) => {
+    setState(prev => ({
+      ...prev,
+      status: 'done',
+      measuredMs: measurement.latencyMs,
+      clickUri: null,
+      recordingUri: null,
+    }));
+  };
+
+  /**
+   * Callback for measurement errors from the mixer WebView.
+   */
+  const handleLatencyError = (msg: string) => {
+    setState(prev => ({
+      ...prev,
+      status: 'error',
+      error: msg,
+      clickUri: null,
+      recordingUri: null,
+    }));
+  };
+
+  /**
+   * Stores the measured latency for this device.
+   */
+  const save = async () => {
+    if (state.measuredMs === null) return;
+    try {
+      const calibration = await saveLatencyCalibration(state.measuredMs);
+      setState(prev => ({ ...prev, status: 'idle', latencyMs: calibration.latencyMs, measuredMs: null }));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, status: 'error', error: 'Save error: ' + err.message }));
+    }
+  };
+
+  /**
+   * Aborts a running measurement and discards the result.
+   */
+  const cancel = async () => {
+    try {
+      await releaseAudio();
+    } catch (err) {
+      console.error('Calibration cancel error', err);
+    }
+    setState(prev => ({
+      ...prev,
+      status: 'idle',
+      measuredMs: null,
+      error: null,
+      clickUri: null,
+      recordingUri: null,
+    }));
+  };
+
+  return {
+    ...state,
+    start,
+    save,
+    cancel,
+    handleLatencyMeasured,
+    handleLatencyError
+  };
+};
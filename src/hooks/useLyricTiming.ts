@@ -0,0 +1,315 @@
+import { useState, useRef, useEffect } from 'react';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { Song } from '../utils/songCatalog';
+import { LyricLine } from '../utils/srtParser';
+import {
+  TapMode,
+  TimingDraft,
+  createTimingDraft,
+  stampStart,
+  stampEnd,
+  nudgeLine,
+  finishTiming,
+  writeLyricsFile,
+  UNSTAMPED
+} from '../utils/lyricTiming';
+
+/**
+ * State interface for the lyric timing editor.
+ */
+export interface LyricTimingState {
+  song: Song | null; // Song being timed, null while the editor is closed
+  mode: TapMode;
+  lines: LyricLine[]; // Empty while the text is still being entered
+  cursor: number; // Next line (or word) a tap stamps
+  selectedIndex: number | null; // Line the nudge buttons move
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  undoStack: TimingDraft[]; // Drafts before each tap or nudge
+  error: string | null;
+}
+
+/**
+ * Custom hook for timing pasted lyrics by tapping along with the song.
+ * Plays the original song and stamps each tap at the exact playback position.
+ *
+ * @returns Editor state and control functions
+ */
+export const useLyricTiming = () => {
+  const [state, setState] = useState<LyricTimingState>({
+    song: null,
+    mode: 'line',
+    lines: [],
+    cursor: 0,
+    selectedIndex: null,
+    isPlaying: false,
+    positionMillis: 0,
+    durationMillis: 0,
+    undoStack: [],
+    error: null,
+  });
+
+  const soundRef = useRef<Audio.Sound | null>(null);
+
+  // Unload the song when the app unmounts
+  useEffect(() => {
+    return () => {
+      if (soundRef.current) soundRef.current.unloadAsync();
+    };
+  }, []);
+
+  /**
+   * Updates position and playback state from the song.
+   */
+  const onPlaybackStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setState(prev => ({
+      ...prev,
+      positionMillis: status.positionMillis,
+      durationMillis: status.durationMillis ?? prev.durationMillis,
+      isPlaying: status.isPlaying && !status.didJustFinish
+    }));
+  };
+
+  /**
+   * Opens the editor and loads the song.
+   *
+   * @param song The song to time lyrics for
+   */
+  const open = async (song: Song) => {
+    setState(prev => ({
+      ...prev,
+      song,
+      lines: [],
+      cursor: 0,
+      undoStack: [],
+      selectedIndex: null,
+      isPlaying: false,
+      positionMillis: 0,
+      durationMillis: song.durationMillis ?? 0,
+      error: null
+    }));
+
+    try {
+      // Reopening the editor replaces the song loaded before
+      if (soundRef.current) {
+        const previous = soundRef.current;
+        soundRef.current = null;
+        await previous.unloadAsync();
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        staysActiveInBackground: false,
+        playThroughEarpieceAndroid: false,
+        shouldDuckAndroid: true,
+      });
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: song.audioUri },
+        { shouldPlay: false, progressUpdateIntervalMillis: 50 }
+      );
+      sound.setOnPlaybackStatusUpdate(onPlaybackStatusUpdate);
+      soundRef.current = sound;
+    } catch (err: any) {
+      console.error('Failed to load song for timing', err);
+      setState(prev => ({ ...prev, error: err.message }));
+    }
+  };
+
+  /**
+   * Reads the exact playback position; the status updates may be a few frames old.
+   */
+  const getPosition = async (): Promise<number> => {
+    const status = await soundRef.current?.getStatusAsync();
+    return status?.isLoaded ? status.positionMillis : state.positionMillis;
+  };
+
+  /**
+   * Splits the pasted text into lines and starts tapping from the beginning of the song.
+   *
+   * @param text Plain lyric text, one line per row
+   * @param mode Whether each tap stamps a line or a word
+   */
+  const begin = async (text: string, mode: TapMode) => {
+    const draft = createTimingDraft(text, mode);
+    if (draft.lines.length === 0) {
+      setState(prev => ({ ...prev, error: 'Please paste the lyrics first.' }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, ...draft, mode, selectedIndex: null, undoStack: [], error: null }));
+    await seekTo(0);
+  };
+
+  /**
+   * Goes back to the text, dropping the times.
+   */
+  const editText = async () => {
+    await soundRef.current?.pauseAsync();
+    setState(prev => ({ ...prev, lines: [], cursor: 0, selectedIndex: null, undoStack: [] }));
+  };
+
+  /**
+   * Plays or pauses the song.
+   */
+  const togglePlayback = async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+
+    try {
+      const status = await sound.getStatusAsync();
+      if (!status.isLoaded) return;
+
+      if (status.isPlaying) {
+        await sound.pauseAsync();
+      } else {
+        if (status.durationMillis && status.positionMillis >= status.durationMillis) {
+          await sound.setPositionAsync(0);
+        }
+        await sound.playAsync();
+      }
+    } catch (err: any) {
+      console.error('Timing playback error', err);
+    }
+  };
+
+  /**
+   * Jumps to a position of the song.
+   *
+   * @param positionMillis Target position in milliseconds
+   */
+  const seekTo = async (positionMillis: number) => {
+    if (!soundRef.current) return;
+
+    try {
+      const position = Math.max(0, positionMillis);
+      setState(prev => ({ ...prev, positionMillis: position }));
+      await soundRef.current.setPositionAsync(position);
+    } catch (err: any) {
+      console.error('Seek error', err);
+    }
+  };
+
+  /**
+   * Stamps the start of the next line (or word) at the current position.
+   */
+  const tap = async () => {
+    const time = await getPosition();
+    setState(prev => {
+      const draft = stampStart(prev, prev.mode, time);
+      if (draft === prev) return prev;
+      return { ...prev, ...draft, undoStack: [...prev.undoStack, { lines: prev.lines, cursor: prev.cursor }] };
+    });
+  };
+
+  /**
+   * Stamps the end of the last started line (or word) at the current position.
+   */
+  const tapEnd = async () => {
+    const time = await getPosition();
+    setState(prev => {
+      const draft = stampEnd(prev, prev.mode, time);
+      if (draft.lines === prev.lines) return prev;
+      return { ...prev, ...draft, undoStack: [...prev.undoStack, { lines: prev.lines, cursor: prev.cursor }] };
+    });
+  };
+
+  /**
+   * Takes back the last tap or nudge.
+   */
+  const undo = () => {
+    setState(prev => {
+      const draft = prev.undoStack[prev.undoStack.length - 1];
+      if (!draft) return prev;
+      return { ...prev, ...draft, undoStack: prev.undoStack.slice(0, -1) };
+    });
+  };
+
+  /**
+   * Selects the line the nudge buttons move, or clears the selection.
+   */
+  const select = (index: number | null) => {
+    setState(prev => ({ ...prev, selectedIndex: index }));
+  };
+
+  /**
+   * Moves the start or end of a line.
+   *
+   * @param index Line to change
+   * @param edge Which end of the line moves
+   * @param deltaMs Shift in milliseconds, negative moves earlier
+   */
+  const nudge = (index: number, edge: 'start' | 'end', deltaMs: number) => {
+    setState(prev => ({
+      ...prev,
+      lines: nudgeLine(prev.lines, index, edge, deltaMs),
+      undoStack: [...prev.undoStack, { lines: prev.lines, cursor: prev.cursor }]
+    }));
+  };
+
+  /**
+   * Plays the song from shortly before a line, to check its timing.
+   */
+  const playFrom = async (index: number) => {
+    const line = state.lines[index];
+    if (!line || line.startTime === UNSTAMPED || !soundRef.current) return;
+    await seekTo(line.startTime - 1000);
+    await soundRef.current.playAsync();
+  };
+
+  /**
+   * Writes the timed lines as an SRT file, or as Enhanced LRC when words were tapped.
+   *
+   * @returns URI of the file, or null when nothing is timed yet or writing failed
+   */
+  const exportLyrics = async (): Promise<string | null> => {
+    const lyrics = finishTiming(state.lines);
+    if (!state.song || lyrics.length === 0) {
+      setState(prev => ({ ...prev, error: 'Tap along with the song to time at least one line.' }));
+      return null;
+    }
+
+    try {
+      return await writeLyricsFile(state.song.title, lyrics);
+    } catch (err: any) {
+      console.error('Lyrics export error', err);
+      setState(prev => ({ ...prev, error: err.message }));
+      return null;
+    }
+  };
+
+  /**
+   * Leaves the editor and unloads the song.
+   */
+  const close = async () => {
+    try {
+      if (soundRef.current) {
+        await soundRef.current.unloadAsync();
+        soundRef.current = null;
+      }
+    } catch (err) {
+      console.error('Failed to close the timing editor', err);
+    }
+    setState(prev => ({ ...prev, song: null, lines: [], cursor: 0, selectedIndex: null, undoStack: [], isPlaying: false }));
+  };
+
+  return {
+    ...state,
+    open,
+    begin,
+    editText,
+    togglePlayback,
+    seekTo,
+    tap,
+    tapEnd,
+    undo,
+    select,
+    nudge,
+    playFrom,
+    exportLyrics,
+    close
+  };
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { MixSettings, DEFAULT_MIX_SETTINGS, loadMixSettings, saveMixSettings } from '../utils/mixSettings';
+
+/**
+ * Custom hook holding the mix settings of the result screen.
+ * The last-used settings are restored on start and become the new defaults.
+ *
+ * @returns Current settings, a live setter and a function to persist them
+ */
+export const useMixSettings = () => {
+  const [settings, setSettings] = useState<MixSettings>(DEFAULT_MIX_SETTINGS);
+
+  useEffect(() => {
+    loadMixSettings().then(setSettings);
+  }, []);
+
+  /**
+   * Updates the settings without saving them (e.g. while dragging a slider).
+   */
+  const update = (changes: Partial<MixSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * Updates the settings and stores them as defaults.
+   */
+  const commit = (changes: Partial<MixSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveMixSettings(next).catch(e => console.error('Could not save mix settings', e));
+  };
+
+  return {
+    settings,
+    update,
+    commit
+  };
+};
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { Performance, loadPerformances, renamePerformance, deletePerformance } from '../utils/performances';
+
+/**
+ * State interface for the performance history.
+ */
+export interface PerformanceHistoryState {
+  performances: Performance[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook that lists the stored performances and edits them.
+ *
+ * @returns Performance history state and control functions
+ */
+export const usePerformanceHistory = () => {
+  const [state, setState] = useState<PerformanceHistoryState>({
+    performances: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  /**
+   * (Re)loads the stored performances.
+   */
+  const refresh = async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    try {
+      const performances = await loadPerformances();
+      setState({ performances, loading: false, error: null });
+    } catch (err: any) {
+      console.error('Failed to load performances', err);
+      setState(prev => ({ ...prev, loading: false, error: 'History error: ' + err.message }));
+    }
+  };
+
+  /**
+   * Gives a performance a new name.
+   *
+   * @param id Id of the performance
+   * @param title The new name, ignored when empty
+   */
+  const rename = async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    try {
+      await renamePerformance(id, trimmed);
+      setState(prev => ({
+        ...prev,
+        performances: prev.performances.map(p => p.id === id ? { ...p, title: trimmed } : p)
+      }));
+    } catch (err: any) {
+      console.error('Rename error', err);
+      setState(prev => ({ ...prev, error: 'Rename error: ' + err.message }));
+    }
+  };
+
+  /**
+   * Deletes a performance and its files.
+   *
+   * @param id Id of the performance
+   */
+  const remove = async (id: string) => {
+    try {
+      await deletePerformance(id);
+      setState(prev => ({ ...prev, performances: prev.performances.filter(p => p.id !== id) }));
+    } catch (err: any) {
+      console.error('Delete error', err);
+      setState(prev => ({ ...prev, error: 'Delete error: ' + err.message }));
+    }
+  };
+
+  return {
+    ...state,
+    refresh,
+    rename,
+    remove
+  };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { Song, loadBundledSongs, loadImportedSongs } from '../utils/songCatalog';
+import { ImportSongInput, ImportSongResult, importSong as importSongFiles } from '../utils/songImporter';
+
+/**
+ * State interface for the song library.
+ */
+export interface SongLibraryState {
+  songs: Song[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Custom hook that loads the catalog of songs available for a session.
+ *
+ * @returns Song library state and control functions
+ */
+export const useSongLibrary = () => {
+  const [state, setState] = useState<SongLibraryState>({
+    songs: [],
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  /**
+   * (Re)loads all songs of the catalog.
+   */
+  const refresh = async () => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    try {
+      const [bundled, imported] = await Promise.all([loadBundledSongs(), loadImportedSongs()]);
+      setState({ songs: [...bundled, ...imported], loading: false, error: null });
+    } catch (err: any) {
+      console.error('Failed to load song library', err);
+      setState(prev => ({ ...prev, loading: false, error: 'Library error: ' + err.message }));
+    }
+  };
+
+  /**
+   * Imports a song from device storage and adds it to the library.
+   *
+   * @param input The picked files and song details
+   * @returns The import result, including validation errors
+   */
+  const importSong = async (input: ImportSongInput): Promise<ImportSongResult> => {
+    const result = await importSongFiles(input);
+    const song = result.song;
+    if (song) {
+      setState(prev => ({ ...prev, songs: [...prev.songs, song] }));
+    }
+    return result;
+  };
+
+  return {
+    ...state,
+    refresh,
+    importSong
+  };
+};
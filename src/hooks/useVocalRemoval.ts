@@ -0,0 +1,165 @@
+import { useState, RefObject } from 'react';
+import { AudioMixerHandle, MixProgress, MIX_CANCELLED } from '../components/AudioMixer';
+import { Song } from '../utils/songCatalog';
+import { VocalRemovalSettings, DEFAULT_VOCAL_REMOVAL, saveInstrumentalSong } from '../utils/vocalRemoval';
+
+export type VocalRemovalStatus = 'idle' | 'loading' | 'ready' | 'rendering' | 'saving';
+
+/**
+ * Which version the A/B preview plays.
+ */
+export type VocalPreviewMode = 'original' | 'processed';
+
+/**
+ * State interface for the vocal removal.
+ */
+export interface VocalRemovalState {
+  song: Song | null; // Song the vocals are removed from
+  status: VocalRemovalStatus;
+  settings: VocalRemovalSettings;
+  preview: VocalPreviewMode | null; // Version playing, null when stopped
+  progress: MixProgress | null;
+  error: string | null;
+}
+
+/**
+ * Custom hook for turning a full song into a backing track.
+ * The mixer WebView decodes the original once; the A/B preview and the final render run there.
+ *
+ * @param mixerRef Handle of the mixer WebView
+ * @returns Vocal removal state and control functions
+ */
+export const useVocalRemoval = (mixerRef: RefObject<AudioMixerHandle | null>) => {
+  const [state, setState] = useState<VocalRemovalState>({
+    song: null,
+    status: 'idle',
+    settings: DEFAULT_VOCAL_REMOVAL,
+    preview: null,
+    progress: null,
+    error: null,
+  });
+
+  /**
+   * Loads a song into the mixer for the vocal removal.
+   *
+   * @param song The song with vocals
+   */
+  const open = async (song: Song) => {
+    setState(prev => ({ ...prev, song, status: 'loading', preview: null, progress: null, error: null }));
+    try {
+      if (!mixerRef.current) throw new Error('Mixer is not ready');
+      await mixerRef.current.loadVocalSource(song.audioUri);
+      setState(prev => ({ ...prev, status: 'ready', progress: null }));
+    } catch (err: any) {
+      if (err.message !== MIX_CANCELLED) console.error('Vocal removal load error', err);
+      setState(prev => ({
+        ...prev,
+        status: 'idle',
+        song: null,
+        progress: null,
+        error: err.message === MIX_CANCELLED ? null : err.message
+      }));
+    }
+  };
+
+  /**
+   * Plays the original or the version without vocals.
+   * While a preview runs, this switches the version without restarting it.
+   *
+   * @param mode Version to hear
+   * @param positionSec Where to start when the preview is not running yet
+   */
+  const playPreview = (mode: VocalPreviewMode, positionSec: number) => {
+    if (state.preview) {
+      mixerRef.current?.updateVocalPreview(state.settings, mode === 'processed');
+    } else {
+      mixerRef.current?.startVocalPreview(state.settings, mode === 'processed', positionSec);
+    }
+    setState(prev => ({ ...prev, preview: mode }));
+  };
+
+  /**
+   * Stops the A/B preview.
+   */
+  const stopPreview = () => {
+    mixerRef.current?.stopVocalPreview();
+    setState(prev => ({ ...prev, preview: null }));
+  };
+
+  /**
+   * Called by the mixer when the preview reached the end of the song or could not start.
+   */
+  const handlePreviewEnded = (error?: string) => {
+    setState(prev => ({ ...prev, preview: null, ...(error ? { error } : {}) }));
+  };
+
+  /**
+   * Changes the strength, applied live to a running preview.
+   */
+  const setStrength = (strength: number) => {
+    const settings = { ...state.settings, strength };
+    if (state.preview) mixerRef.current?.updateVocalPreview(settings, state.preview === 'processed');
+    setState(prev => ({ ...prev, settings }));
+  };
+
+  /**
+   * Applies the mixer progress while the song is loaded or rendered.
+   */
+  const handleProgress = (progress: MixProgress) => {
+    setState(prev => prev.status === 'loading' || prev.status === 'rendering' ? { ...prev, progress } : prev);
+  };
+
+  /**
+   * Renders the song without vocals and adds it to the library.
+   *
+   * @returns The new backing track song, or null when it failed or was cancelled
+   */
+  const save = async (): Promise<Song | null> => {
+    const song = state.song;
+    if (!song || !mixerRef.current) return null;
+
+    setState(prev => ({ ...prev, status: 'rendering', preview: null, progress: null, error: null }));
+    try {
+      const instrumentalUri = await mixerRef.current.removeVocals(state.settings);
+      setState(prev => ({ ...prev, status: 'saving', progress: { stage: 'saving', percent: null } }));
+      const instrumental = await saveInstrumentalSong(song, instrumentalUri);
+      close();
+      return instrumental;
+    } catch (err: any) {
+      if (err.message !== MIX_CANCELLED) {
+        console.error('Vocal removal error', err);
+        setState(prev => ({ ...prev, error: err.message }));
+      }
+      setState(prev => ({ ...prev, status: 'ready', progress: null }));
+      return null;
+    }
+  };
+
+  /**
+   * Stops a running render, the loaded song stays available.
+   */
+  const cancel = () => {
+    mixerRef.current?.cancel();
+  };
+
+  /**
+   * Leaves the vocal removal and frees the decoded song.
+   */
+  const close = () => {
+    mixerRef.current?.releaseVocalSource();
+    setState(prev => ({ ...prev, song: null, status: 'idle', preview: null, progress: null }));
+  };
+
+  return {
+    ...state,
+    open,
+    playPreview,
+    stopPreview,
+    handlePreviewEnded,
+    setStrength,
+    handleProgress,
+    save,
+    cancel,
+    close
+  };
+};
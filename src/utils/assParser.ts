@@ -0,0 +1,185 @@
+import {
+  LyricLine,
+  LyricWord,
+  LyricsDiagnostic,
+  LyricsParseResult,
+  TimedCue,
+  arrangeCues,
+  cleanCueText,
+  parseTime
+} from './srtParser';
+
+/**
+ * A Dialogue or Comment line of the [Events] section.
+ */
+interface AssEvent {
+  kind: 'dialogue' | 'comment';
+  fields: Record<string, string>; // Values by lower-case name from the Format line
+  fileLine: number;
+}
+
+// Override blocks such as {\k20}, {\kf35\1c&HFFFFFF&} or {\an8}
+const OVERRIDE_BLOCK = /\{([^}]*)\}/;
+// Karaoke syllable duration in centiseconds: \k, \K, \kf and \ko
+const KARAOKE_TAG = /\\k[fo]?(\d+)/i;
+
+/**
+ * Converts ASS text without override blocks to plain text.
+ * \N is a line break, \n (a soft break) and \h (a hard space) become spaces.
+ */
+const toPlainText = (text: string): string => {
+  return text.replace(/\\N/g, '\n').replace(/\\[nh]/g, ' ');
+};
+
+/**
+ * Reads the text of an event and its karaoke syllables.
+ * Every \k tag starts a syllable lasting its duration; syllables without text are pauses.
+ *
+ * @param rawText Text field of the event, with override blocks
+ * @param startTime Start of the event
+ * @param endTime End of the event
+ * @returns The text with rows like parseSRT, and the syllable timings if the event has \k tags
+ */
+const parseKaraokeText = (rawText: string, startTime: number, endTime: number): { text: string; words?: LyricWord[] } => {
+  // Odd entries of the split are the contents of the override blocks
+  const parts = rawText.split(OVERRIDE_BLOCK);
+  const syllables: LyricWord[] = [];
+  let plain = '';
+  // Text before the first \k tag is sung with the first syllable
+  let lead = '';
+  let time = startTime;
+
+  parts.forEach((part, index) => {
+    if (index % 2 === 1) {
+      const karaoke = part.match(KARAOKE_TAG);
+      if (!karaoke) return;
+      const duration = parseInt(karaoke[1], 10) * 10;
+      const text = syllables.length === 0 ? lead : '';
+      syllables.push({ text, startTime: Math.min(time, endTime), endTime: Math.min(time + duration, endTime) });
+      time += duration;
+      return;
+    }
+
+    const piece = toPlainText(part);
+    plain += piece;
+    if (syllables.length > 0) syllables[syllables.length - 1].text += piece;
+    else lead += piece;
+  });
+
+  const text = cleanCueText(plain.split('\n'));
+  if (syllables.length === 0) return { text };
+
+  const words: LyricWord[] = [];
+  syllables.forEach(syllable => {
+    const text = syllable.text.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n');
+    const previous = words[words.length - 1];
+    // Spaces and breaks before a syllable belong to the syllable before
+    const leading = text.match(/^\s*/)![0];
+    if (previous && leading) previous.text = (previous.text + leading).replace(/\s+$/, gap => (gap.includes('\n') ? '\n' : ' '));
+    if (text.trim()) words.push({ ...syllable, text: previous ? text.slice(leading.length) : text });
+  });
+
+  if (words.length === 0) return { text };
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  return { text, words };
+};
+
+/**
+ * Parses an ASS/SSA subtitle string into an array of LyricLine objects.
+ *
+ * @param assContent The raw ASS or SSA file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Array of parsed LyricLine objects
+ */
+export const parseASS = (assContent: string, breakThresholdMs?: number): LyricLine[] => {
+  return parseASSWithDiagnostics(assContent, breakThresholdMs).lyrics;
+};
+
+/**
+ * Parses an ASS/SSA subtitle string and reports what had to be repaired or left out.
+ * Uses the Dialogue events; styling overrides are stripped and \N line breaks kept like in parseSRT.
+ * Karaoke tags (\k, \K, \kf, \ko) become per-syllable timings.
+ * Files processed by the Aegisub karaoke templater are read from their original, commented out lines.
+ *
+ * @param assContent The raw ASS or SSA file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Parsed lyric lines with breaks, and the diagnostics sorted by line
+ */
+export const parseASSWithDiagnostics = (assContent: string, breakThresholdMs?: number): LyricsParseResult => {
+  const lines = assContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const diagnostics: LyricsDiagnostic[] = [];
+  const events: AssEvent[] = [];
+
+  let section = '';
+  let format: string[] | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      continue;
+    }
+    if (section !== 'events') continue;
+
+    const entry = line.match(/^(Format|Dialogue|Comment)\s*:\s*(.*)$/i);
+    if (!entry) continue;
+
+    const kind = entry[1].toLowerCase();
+    if (kind === 'format') {
+      format = entry[2].split(',').map(name => name.trim().toLowerCase());
+      continue;
+    }
+    if (!format) {
+      diagnostics.push({ severity: 'error', line: i + 1, message: 'Event before the Format line was left out.' });
+      continue;
+    }
+
+    // The text is the last field and may contain commas
+    const values = entry[2].split(',');
+    const fields: Record<string, string> = {};
+    format.forEach((name, index) => {
+      fields[name] = index === format!.length - 1 ? values.slice(index).join(',') : (values[index] ?? '').trim();
+    });
+    events.push({ kind: kind as AssEvent['kind'], fields, fileLine: i + 1 });
+  }
+
+  if (!format) {
+    diagnostics.push({ severity: 'error', message: 'No [Events] section with a Format line was found.' });
+    return { lyrics: [], diagnostics };
+  }
+
+  // The karaoke templater comments out the original lines and adds generated "fx" lines
+  const effectOf = (event: AssEvent) => (event.fields.effect ?? '').trim().toLowerCase();
+  let sung = events.filter(event => event.kind === 'dialogue' && effectOf(event) !== 'fx');
+  if (sung.length === 0) sung = events.filter(event => event.kind === 'comment' && effectOf(event) === 'karaoke');
+
+  const cues: TimedCue[] = [];
+  sung.forEach(event => {
+    const { fileLine } = event;
+    const startStr = event.fields.start ?? '';
+    const endStr = event.fields.end ?? '';
+    const startTime = parseTime(startStr);
+    const endTime = parseTime(endStr);
+    if (isNaN(startTime) || isNaN(endTime)) {
+      const invalid = isNaN(startTime) ? startStr : endStr;
+      diagnostics.push({ severity: 'error', line: fileLine, message: `Invalid timestamp "${invalid}", the event was left out.` });
+      return;
+    }
+    if (endTime < startTime) {
+      diagnostics.push({ severity: 'error', line: fileLine, message: 'Event ends before it starts and was left out.' });
+      return;
+    }
+
+    const { text, words } = parseKaraokeText(event.fields.text ?? '', startTime, endTime);
+    if (!text) {
+      diagnostics.push({ severity: 'warning', line: fileLine, message: 'Event has no text and was left out.' });
+      return;
+    }
+
+    const id = String(cues.length + 1);
+    cues.push({ line: { id, startTime, endTime, text, isInstrumental: false, ...(words ? { words } : {}) }, fileLine });
+  });
+
+  return arrangeCues(cues, diagnostics, breakThresholdMs);
+};
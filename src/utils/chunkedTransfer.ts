@@ -0,0 +1,130 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+
+/**
+ * Bytes per chunk of the React Native <-> WebView transfer protocol.
+ * A multiple of 3, so every chunk is standalone Base64 without padding
+ * and the chunks can be decoded one by one or simply concatenated.
+ */
+export const TRANSFER_CHUNK_BYTES = 3 * 64 * 1024;
+
+// Time to wait for the acknowledgement of a chunk before sending it again
+export const ACK_TIMEOUT_MS = 5000;
+export const MAX_CHUNK_RETRIES = 3;
+
+/**
+ * A local file prepared for sending in chunks.
+ */
+export interface OutgoingFile {
+  uri: string;
+  size: number;
+  chunkCount: number;
+}
+
+/**
+ * A transfer being received into a file in the cache directory.
+ * Each chunk is written to the file as it arrives, so the whole file is never held in memory.
+ */
+export interface IncomingTransfer {
+  file: File;
+  written: boolean[]; // Indexed by sequence number
+  received: number;
+}
+
+/**
+ * Prepares a file for a chunked transfer.
+ * Remote URIs (e.g. bundled assets served by the dev server) are downloaded first,
+ * since chunks are read with byte offsets from the local file system.
+ *
+ * @param uri URI of the audio file
+ * @returns Local URI, size and number of chunks
+ */
+export const openFileForTransfer = async (uri: string): Promise<OutgoingFile> => {
+  let localUri = uri;
+  if (!uri.startsWith('file://')) {
+    const fileName = `transfer_${uri.replace(/[^a-z0-9.]/gi, '_').slice(-80)}`;
+    const download = await FileSystem.downloadAsync(uri, FileSystem.cacheDirectory + fileName);
+    localUri = download.uri;
+  }
+
+  const info = await FileSystem.getInfoAsync(localUri);
+  if (!info.exists) throw new Error('Audio file not found');
+
+  return {
+    uri: localUri,
+    size: info.size,
+    chunkCount: Math.max(1, Math.ceil(info.size / TRANSFER_CHUNK_BYTES)),
+  };
+};
+
+/**
+ * Reads one chunk of a file as Base64.
+ *
+ * @param file The prepared file
+ * @param seq Sequence number of the chunk
+ */
+export const readFileChunk = (file: OutgoingFile, seq: number): Promise<string> => {
+  const position = seq * TRANSFER_CHUNK_BYTES;
+  return FileSystem.readAsStringAsync(file.uri, {
+    encoding: 'base64',
+    position,
+    length: Math.min(TRANSFER_CHUNK_BYTES, file.size - position),
+  });
+};
+
+/**
+ * Creates the empty target file of a transfer sent by the WebView.
+ *
+ * @param id ID of the transfer
+ */
+export const createIncomingTransfer = (id: string): IncomingTransfer => {
+  const file = new File(`${FileSystem.cacheDirectory}incoming_${id}_${Date.now()}`);
+  file.create({ overwrite: true });
+  return { file, written: [], received: 0 };
+};
+
+/**
+ * Writes a received chunk to its place in the target file. Retransmitted chunks are ignored.
+ *
+ * @returns Whether the chunk was new
+ */
+export const addChunk = (transfer: IncomingTransfer, seq: number, data: string): boolean => {
+  if (transfer.written[seq]) return false;
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  const handle = transfer.file.open();
+  try {
+    handle.offset = seq * TRANSFER_CHUNK_BYTES;
+    handle.writeBytes(bytes);
+  } finally {
+    handle.close();
+  }
+  transfer.written[seq] = true;
+  transfer.received++;
+  return true;
+};
+
+/**
+ * Completes a transfer. An incomplete transfer is deleted.
+ *
+ * @param transfer The received chunks
+ * @param chunkCount Number of chunks announced by the sender
+ * @returns URI of the received file in the cache directory
+ */
+export const finishTransfer = (transfer: IncomingTransfer, chunkCount: number): string => {
+  if (transfer.received !== chunkCount) {
+    discardTransfer(transfer);
+    throw new Error(`Transfer incomplete: ${transfer.received} of ${chunkCount} chunks received`);
+  }
+  return transfer.file.uri;
+};
+
+/**
+ * Deletes the file of a cancelled or failed transfer.
+ */
+export const discardTransfer = (transfer: IncomingTransfer) => {
+  if (transfer.file.exists) transfer.file.delete();
+};
@@ -0,0 +1,166 @@
+import { DuetPart, LyricLine } from './srtParser';
+import { PerformanceScore } from './pitchScoring';
+
+/**
+ * A singer of a duet and the part they sing.
+ */
+export interface DuetSinger {
+  name: string;
+  part: 'A' | 'B';
+}
+
+/**
+ * Duet options of the session setup.
+ */
+export interface DuetSetup {
+  enabled: boolean;
+  singers: [DuetSinger, DuetSinger];
+}
+
+/**
+ * How much of their lines a singer sang in a performance.
+ */
+export interface DuetCoverage {
+  singer: DuetSinger;
+  totalLines: number; // Lines of the singer's part, including the lines sung together
+  sungLines: number; // Lines in which a voice was detected
+  score: number | null; // Average pitch score of the scored lines
+}
+
+export const DEFAULT_DUET: DuetSetup = {
+  enabled: false,
+  singers: [
+    { name: 'Singer 1', part: 'A' },
+    { name: 'Singer 2', part: 'B' },
+  ],
+};
+
+// Colors of the parts in the lyrics and on the result screen
+export const PART_COLORS: Record<DuetPart, string> = {
+  A: '#4FC3F7',
+  B: '#F48FB1',
+  Both: '#B388FF',
+};
+
+// Part prefix at the start of a lyric line, e.g. "[A] ", "[b]" or "[Both]"
+const PART_TAG = /^\s*\[(A|B|Both)\]\s*/i;
+
+// Share of the frames of a line that must be voiced to count the line as sung
+const SUNG_THRESHOLD = 0.3;
+
+/**
+ * Reads a part prefix and returns the part with the remaining text.
+ */
+export const readPartTag = (text: string): { part: DuetPart | null; text: string } => {
+  const match = text.match(PART_TAG);
+  if (!match) return { part: null, text };
+  const tag = match[1].toLowerCase();
+  const part: DuetPart = tag === 'a' ? 'A' : tag === 'b' ? 'B' : 'Both';
+  return { part, text: text.slice(match[0].length) };
+};
+
+/**
+ * Moves [A]/[B]/[Both] prefixes of the lyric text into the part field.
+ * A prefix applies to the following lines until the next prefix, like the
+ * part markings of a duet sheet. Lines before the first prefix are sung together.
+ *
+ * @param lyrics Parsed lyric lines
+ * @returns Lyric lines with parts, unchanged when the file has no prefixes
+ */
+export const applyDuetParts = (lyrics: LyricLine[]): LyricLine[] => {
+  if (!lyrics.some(line => !line.isInstrumental && PART_TAG.test(line.text))) return lyrics;
+
+  let current: DuetPart = 'Both';
+  return lyrics.map(line => {
+    if (line.isInstrumental) return line;
+
+    const { part, text } = readPartTag(line.text);
+    if (part) current = part;
+
+    let words = line.words;
+    if (part && words && words.length > 0) {
+      const first = readPartTag(words[0].text);
+      words = first.text.trim()
+        ? [{ ...words[0], text: first.text }, ...words.slice(1)]
+        : words.slice(1);
+    }
+
+    return { ...line, text, part: current, ...(words ? { words } : {}) };
+  });
+};
+
+/**
+ * Whether the lyrics are written for a duet.
+ */
+export const hasDuetParts = (lyrics: LyricLine[]): boolean => {
+  return lyrics.some(line => line.part !== undefined);
+};
+
+/**
+ * Whether a singer sings a part.
+ */
+export const singsPart = (singer: DuetSinger, part: DuetPart | undefined): boolean => {
+  return part === singer.part || part === 'Both';
+};
+
+/**
+ * Returns the label of each part: the singer names in a duet session, otherwise the part names.
+ */
+export const getPartLabels = (setup: DuetSetup): Record<DuetPart, string> => {
+  if (!setup.enabled) return { A: 'Part A', B: 'Part B', Both: 'Both' };
+
+  const [first, second] = setup.singers;
+  const byPart = first.part === 'A' ? { A: first.name, B: second.name } : { A: second.name, B: first.name };
+  return { ...byPart, Both: 'Both' };
+};
+
+/**
+ * Finds the next line whose part differs from the line being sung.
+ *
+ * @param lyrics Lyric lines with parts
+ * @param currentTime Current playback time in milliseconds
+ * @returns The line where the turn changes, or null
+ */
+export const getNextTurn = (lyrics: LyricLine[], currentTime: number): LyricLine | null => {
+  const sung = lyrics.filter(line => !line.isInstrumental && line.part);
+  const active = sung.find(line => currentTime >= line.startTime && currentTime <= line.endTime);
+
+  return sung.find(line => line.startTime > currentTime && (!active || line.part !== active.part)) ?? null;
+};
+
+/**
+ * Counts the lines each singer covered, based on the voiced share of every line.
+ *
+ * @param setup The singers and their parts
+ * @param lyrics Lyric lines with parts
+ * @param score Score of the performance, with the voiced share per line
+ * @returns Coverage per singer, in the order of the setup
+ */
+export const getDuetCoverage = (setup: DuetSetup, lyrics: LyricLine[], score: PerformanceScore): DuetCoverage[] => {
+  const lineScores = new Map(score.lines.map(line => [line.lineId, line]));
+
+  return setup.singers.map(singer => {
+    let totalLines = 0;
+    let sungLines = 0;
+    let scoreSum = 0;
+    let scoredLines = 0;
+
+    lyrics.forEach(line => {
+      if (line.isInstrumental || !singsPart(singer, line.part)) return;
+      const lineScore = lineScores.get(line.id);
+      totalLines++;
+      if (lineScore && lineScore.voiced >= SUNG_THRESHOLD) sungLines++;
+      if (lineScore && lineScore.score !== null) {
+        scoreSum += lineScore.score;
+        scoredLines++;
+      }
+    });
+
+    return {
+      singer,
+      totalLines,
+      sungLines,
+      score: scoredLines > 0 ? Math.round(scoreSum / scoredLines) : null,
+    };
+  });
+};
@@ -0,0 +1,120 @@
+export type ExportProfileId = 'share' | 'standard' | 'master';
+
+/**
+ * Output format of the rendered mix.
+ */
+export interface ExportProfile {
+  id: ExportProfileId;
+  name: string;
+  description: string;
+  sampleRate: number;
+  channels: number;
+  bitDepth: 16 | 24;
+  compressedBitrate: number; // Bits per second when exported as Opus/AAC
+}
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  { id: 'share', name: 'Share', description: '22 kHz mono', sampleRate: 22050, channels: 1, bitDepth: 16, compressedBitrate: 64000 },
+  { id: 'standard', name: 'Standard', description: '44.1 kHz stereo', sampleRate: 44100, channels: 2, bitDepth: 16, compressedBitrate: 128000 },
+  { id: 'master', name: 'Master', description: '48 kHz stereo 24-bit', sampleRate: 48000, channels: 2, bitDepth: 24, compressedBitrate: 192000 },
+];
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Looks up an export profile, falling back to the standard quality.
+ *
+ * @param id The profile ID
+ * @returns Format parameters to send to the mixer
+ */
+export const getExportProfile = (id: ExportProfileId): ExportProfile => {
+  return EXPORT_PROFILES.find(profile => profile.id === id) ?? EXPORT_PROFILES[1];
+};
+
+/**
+ * Estimates the size of the exported file.
+ *
+ * @param profile Output quality
+ * @param durationMillis Length of the mix
+ * @param format File format, compressed formats are estimated from their bitrate
+ * @returns Size in bytes
+ */
+export const estimateFileSize = (profile: ExportProfile, durationMillis: number, format?: ExportFormat): number => {
+  if (format?.recorderMimeType) {
+    return Math.ceil(profile.compressedBitrate / 8 * durationMillis / 1000);
+  }
+  const frames = Math.ceil(profile.sampleRate * durationMillis / 1000);
+  return WAV_HEADER_BYTES + frames * profile.channels * (profile.bitDepth / 8);
+};
+
+/**
+ * Formats a byte count for display, e.g. "12.4 MB".
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export type ExportFormatId = 'wav' | 'opus' | 'aac';
+
+/**
+ * File format of the rendered mix.
+ * Compressed formats are encoded in real time by the WebView's MediaRecorder.
+ * Android's recorder only writes WebM, so Opus files are saved as .webm.
+ */
+export interface ExportFormat {
+  id: ExportFormatId;
+  name: string;
+  extension: string;
+  mimeType: string;
+  recorderMimeType: string | null; // MediaRecorder type, null for uncompressed WAV
+  platforms: string[]; // Platforms whose WebView can encode the format
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'wav', name: 'WAV', extension: 'wav', mimeType: 'audio/wav', recorderMimeType: null, platforms: ['android', 'ios'] },
+  { id: 'opus', name: 'Opus (WebM)', extension: 'webm', mimeType: 'audio/webm', recorderMimeType: 'audio/webm;codecs=opus', platforms: ['android'] },
+  { id: 'aac', name: 'AAC', extension: 'm4a', mimeType: 'audio/mp4', recorderMimeType: 'audio/mp4', platforms: ['ios'] },
+];
+
+/**
+ * Lists the formats that can be exported on the current platform.
+ *
+ * @param platform Platform.OS of the device
+ */
+export const getAvailableFormats = (platform: string): ExportFormat[] => {
+  return EXPORT_FORMATS.filter(format => format.platforms.includes(platform));
+};
+
+/**
+ * Looks up an export format, falling back to WAV.
+ *
+ * @param id The format ID
+ * @returns Format parameters to send to the mixer
+ */
+export const getExportFormat = (id: ExportFormatId): ExportFormat => {
+  return EXPORT_FORMATS.find(format => format.id === id) ?? EXPORT_FORMATS[0];
+};
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  '3gp': 'audio/3gpp',
+};
+
+/**
+ * Derives the extension and MIME type of an audio file from its URI.
+ *
+ * @param uri Local file URI
+ * @returns Extension without the dot and the matching MIME type
+ */
+export const getAudioFileType = (uri: string): { extension: string; mimeType: string } => {
+  const match = uri.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i);
+  const extension = match ? match[1].toLowerCase() : 'wav';
+  return { extension, mimeType: AUDIO_MIME_TYPES[extension] ?? 'audio/*' };
+};
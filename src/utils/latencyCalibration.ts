@@ -0,0 +1,134 @@
+import { Platform } from 'react-native';
+import { readJSON, writeJSON, ensureDirectory } from './storage';
+
+export type CalibrationStatus = 'idle' | 'recording' | 'analyzing' | 'done' | 'error';
+
+/**
+ * Result of a latency measurement posted by the mixer WebView.
+ */
+export interface LatencyMeasurement {
+  latencyMs: number;
+  confidence: number; // Correlation peak relative to the average, higher is better
+}
+
+/**
+ * A stored latency measurement.
+ */
+export interface LatencyCalibration {
+  latencyMs: number; // Round-trip offset between playback and recording
+  device: string; // Device the measurement belongs to
+  measuredAt: string; // ISO date
+}
+
+/**
+ * Layout of the generated click track.
+ * The gaps between the clicks all differ, so a wrong lag can line up one click at most
+ * and the search window of the measurement has a single correlation peak.
+ */
+export const CLICK_TRACK = {
+  sampleRate: 44100,
+  durationSec: 7,
+  clickTimesSec: [1, 1.45, 2, 2.65, 3.4, 4.25, 5.2, 6.25],
+  clickSec: 0.004,
+  frequency: 2000,
+};
+
+const CALIBRATION_FILE = 'settings/latency.json';
+
+/**
+ * Identifies the current device, so a restored backup from another phone is not used.
+ */
+export const getDeviceId = (): string => {
+  const constants = Platform.constants as { Brand?: string; Model?: string; systemName?: string; interfaceIdiom?: string };
+  if (Platform.OS === 'android') return `android:${constants.Brand ?? ''}:${constants.Model ?? ''}`;
+  return `${Platform.OS}:${constants.systemName ?? ''}:${constants.interfaceIdiom ?? ''}`;
+};
+
+/**
+ * Loads the latency measured on this device.
+ *
+ * @returns The latency in milliseconds, or null if the device was never calibrated
+ */
+export const loadLatencyCalibration = async (): Promise<LatencyCalibration | null> => {
+  const stored = await readJSON<LatencyCalibration | null>(CALIBRATION_FILE, null);
+  if (!stored || stored.device !== getDeviceId()) return null;
+  return stored;
+};
+
+/**
+ * Stores the latency measured on this device.
+ *
+ * @param latencyMs The measured latency in milliseconds
+ * @returns The stored calibration
+ */
+export const saveLatencyCalibration = async (latencyMs: number): Promise<LatencyCalibration> => {
+  const calibration: LatencyCalibration = {
+    latencyMs: Math.round(latencyMs),
+    device: getDeviceId(),
+    measuredAt: new Date().toISOString(),
+  };
+  await ensureDirectory('settings');
+  await writeJSON(CALIBRATION_FILE, calibration);
+  return calibration;
+};
+
+/**
+ * Generates the click track played during calibration as a 16-bit mono WAV.
+ * Each click is a short windowed sine burst that is easy to find in the recording.
+ *
+ * @returns Base64 encoded WAV file
+ */
+export const createClickTrackBase64 = (): string => {
+  const { sampleRate, durationSec, clickTimesSec, clickSec, frequency } = CLICK_TRACK;
+  const length = Math.floor(sampleRate * durationSec);
+  const buffer = new ArrayBuffer(44 + length * 2);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + length * 2, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, length * 2, true);
+
+  const clickLength = Math.floor(sampleRate * clickSec);
+  for (const clickTime of clickTimesSec) {
+    const start = Math.floor(sampleRate * clickTime);
+    for (let i = 0; i < clickLength; i++) {
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / clickLength);
+      const sample = 0.9 * window * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      view.setInt16(44 + (start + i) * 2, sample * 0x7FFF, true);
+    }
+  }
+
+  return arrayBufferToBase64(buffer);
+};
+
+/**
+ * Writes a string to a DataView at a specific offset.
+ */
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * Converts an ArrayBuffer to a Base64 string.
+ */
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const CHUNK = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
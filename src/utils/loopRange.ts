@@ -0,0 +1,62 @@
+import { LyricLine } from './srtParser';
+
+/**
+ * A section of the backing track that repeats (A/B loop).
+ */
+export interface LoopRange {
+  startMs: number; // Point A
+  endMs: number; // Point B
+}
+
+/**
+ * Loop section and practice options.
+ */
+export interface LoopSettings {
+  range: LoopRange | null; // null plays the song normally
+  pointA: number | null; // A point set while B is still missing
+  preRollMs: number; // Lead-in played before every repeat
+  rate: number; // Playback speed, 1 = original (pitch is kept)
+}
+
+export const DEFAULT_LOOP: LoopSettings = { range: null, pointA: null, preRollMs: 2000, rate: 1 };
+
+export const PRE_ROLL_OPTIONS = [0, 1000, 2000, 4000];
+export const LOOP_RATE_OPTIONS = [1, 0.9, 0.75, 0.5];
+
+// Shortest section that can be looped
+const MIN_LOOP_MS = 500;
+
+/**
+ * Creates a loop range from two points in any order.
+ *
+ * @returns The range, or null if the points are too close together
+ */
+export const createLoopRange = (a: number, b: number): LoopRange | null => {
+  const startMs = Math.max(0, Math.min(a, b));
+  const endMs = Math.max(a, b);
+  return endMs - startMs >= MIN_LOOP_MS ? { startMs, endMs } : null;
+};
+
+/**
+ * Creates a loop range covering a run of lyric lines.
+ *
+ * @param first One end of the selection
+ * @param last The other end of the selection
+ */
+export const createLineLoopRange = (first: LyricLine, last: LyricLine): LoopRange | null => {
+  return createLoopRange(Math.min(first.startTime, last.startTime), Math.max(first.endTime, last.endTime));
+};
+
+/**
+ * Returns where each repeat starts playing, including the pre-roll.
+ */
+export const getLoopStart = (loop: LoopSettings): number => {
+  return loop.range ? Math.max(0, loop.range.startMs - loop.preRollMs) : 0;
+};
+
+/**
+ * Whether a lyric line lies inside the loop range (used to highlight the selection).
+ */
+export const isLineInLoop = (line: LyricLine, range: LoopRange | null): boolean => {
+  return !!range && line.startTime < range.endMs && line.endTime > range.startMs;
+};
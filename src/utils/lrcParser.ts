@@ -0,0 +1,224 @@
+import { LyricLine, LyricWord, insertInstrumentalBreaks } from './srtParser';
+
+/**
+ * Metadata tags found in the header of an LRC file.
+ */
+export interface LrcMetadata {
+  title?: string; // [ti:]
+  artist?: string; // [ar:]
+  album?: string; // [al:]
+  author?: string; // [au:] Lyrics author
+  by?: string; // [by:] Creator of the LRC file
+  length?: string; // [length:]
+  offset: number; // [offset:] in milliseconds, positive values show lyrics sooner
+}
+
+const TIME_TAG = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+const WORD_TAG = /<(\d+):(\d{1,2}(?:[.:]\d{1,3})?)>/g;
+const META_TAG = /^\[([a-zA-Z]+):(.*)\]$/;
+
+const MAX_LINE_DURATION = 8000; // Longer gaps are left for instrumental breaks
+const LAST_LINE_DURATION = 5000; // The last line has no following timestamp
+const LAST_WORD_DURATION = 500; // A last word without an end stamp
+
+/**
+ * Parses the metadata tags ([ti:], [ar:], [offset:] ...) of an LRC string.
+ *
+ * @param lrcContent The raw LRC file content string
+ * @returns Parsed metadata, offset defaults to 0
+ */
+export const parseLRCMetadata = (lrcContent: string): LrcMetadata => {
+  const metadata: LrcMetadata = { offset: 0 };
+  const lines = lrcContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  for (const rawLine of lines) {
+    const match = rawLine.trim().match(META_TAG);
+    if (!match) continue;
+
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    switch (key) {
+      case 'ti': metadata.title = value; break;
+      case 'ar': metadata.artist = value; break;
+      case 'al': metadata.album = value; break;
+      case 'au': metadata.author = value; break;
+      case 'by': metadata.by = value; break;
+      case 'length': metadata.length = value; break;
+      case 'offset': {
+        const offset = parseInt(value, 10);
+        if (!isNaN(offset)) metadata.offset = offset;
+        break;
+      }
+    }
+  }
+
+  return metadata;
+};
+
+/**
+ * Parses an LRC or Enhanced LRC string into an array of LyricLine objects.
+ * Supports multiple time tags per line, applies the [offset:] tag and
+ * strips Enhanced LRC <mm:ss.xx> word stamps from the displayed text.
+ * Instrumental breaks are inserted the same way as for SRT files.
+ *
+ * @param lrcContent The raw LRC file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Array of parsed LyricLine objects
+ */
+export const parseLRC = (lrcContent: string, breakThresholdMs?: number): LyricLine[] => {
+  const { offset } = parseLRCMetadata(lrcContent);
+  const lines = lrcContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  // Collect every timestamped entry, including empty ones which mark line ends
+  const entries: { time: number; text: string; words: LyricWord[] | null }[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const stamps: number[] = [];
+
+    TIME_TAG.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let textStart = 0;
+    while ((match = TIME_TAG.exec(line)) !== null && match.index === textStart) {
+      stamps.push(parseLrcTime(match[1], match[2]));
+      textStart = match.index + match[0].length;
+    }
+    if (stamps.length === 0) continue;
+
+    const body = line.slice(textStart);
+    const text = body.replace(WORD_TAG, '').replace(/\s+/g, ' ').trim();
+    const words = parseWordStamps(body, offset);
+
+    for (const stamp of stamps) {
+      entries.push({ time: Math.max(0, stamp - offset), text, words });
+    }
+  }
+
+  entries.sort((a, b) => a.time - b.time);
+
+  const lyrics: LyricLine[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry.text) continue;
+
+    const next = entries[i + 1];
+    let endTime = next ? Math.min(next.time, entry.time + MAX_LINE_DURATION) : entry.time + LAST_LINE_DURATION;
+
+    // Word stamps are absolute, so they only apply to the first occurrence of a repeated line
+    const words = entry.words && entry.words[0].startTime >= entry.time - 1000 && entry.words[0].startTime < endTime
+      ? entry.words
+      : undefined;
+    if (words) {
+      // The end of the last word marks the end of the sung line
+      const lastWordEnd = words[words.length - 1].endTime;
+      endTime = next ? Math.min(lastWordEnd, next.time) : lastWordEnd;
+    }
+
+    lyrics.push({
+      id: String(lyrics.length + 1),
+      startTime: entry.time,
+      endTime,
+      text: entry.text,
+      isInstrumental: false,
+      ...(words ? { words } : {})
+    });
+  }
+
+  return insertInstrumentalBreaks(lyrics, breakThresholdMs);
+};
+
+/**
+ * Extracts Enhanced LRC word timings from the text after the line time tags.
+ * Each <mm:ss.xx> stamp starts a word that lasts until the next stamp;
+ * a trailing stamp without text marks the end of the last word.
+ *
+ * @param body Line content after the [mm:ss.xx] time tags
+ * @param offset The [offset:] value in milliseconds
+ * @returns Word timings, or null if the line has no word stamps
+ */
+const parseWordStamps = (body: string, offset: number): LyricWord[] | null => {
+  const matches = Array.from(body.matchAll(WORD_TAG));
+  if (matches.length === 0) return null;
+
+  const words: LyricWord[] = [];
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    const next = matches[i + 1];
+    const textStart = (match.index ?? 0) + match[0].length;
+    const rawText = body.slice(textStart, next ? next.index : undefined);
+    if (!rawText.trim()) continue;
+
+    const startTime = Math.max(0, parseLrcTime(match[1], match[2]) - offset);
+    const endTime = next
+      ? Math.max(startTime, parseLrcTime(next[1], next[2]) - offset)
+      : startTime + LAST_WORD_DURATION;
+
+    words.push({ text: rawText.replace(/\s+/g, ' '), startTime, endTime });
+  }
+
+  if (words.length === 0) return null;
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  return words;
+};
+
+/**
+ * Writes lyric lines as an Enhanced LRC file that parseLRC reads back.
+ * Word timings become <mm:ss.xx> stamps with a trailing stamp for the end of the last word.
+ * Lines without words that end before the next line get an empty entry marking their end.
+ * Instrumental breaks are left out, parseLRC inserts them again from the gaps.
+ *
+ * @param lyrics Lyric lines sorted by start time
+ * @returns The LRC file content
+ */
+export const serializeLRC = (lyrics: LyricLine[]): string => {
+  const sung = lyrics.filter(line => !line.isInstrumental);
+
+  return sung
+    .map((line, index) => {
+      const next = sung[index + 1];
+      if (line.words && line.words.length > 0) {
+        // Text before the first word (e.g. a duet prefix) stays in front of the stamps
+        const firstWord = line.words[0].text.trim();
+        const prefix = line.text.slice(0, Math.max(0, line.text.indexOf(firstWord))).trim();
+        const stamps = line.words
+          .map(word => `<${formatLrcTime(word.startTime)}>${word.text.replace(/\s+/g, ' ').trim()}`)
+          .join(' ');
+        const end = line.words[line.words.length - 1].endTime;
+        return `[${formatLrcTime(line.startTime)}]${prefix ? `${prefix} ` : ''}${stamps} <${formatLrcTime(end)}>`;
+      }
+
+      const entry = `[${formatLrcTime(line.startTime)}]${line.text.replace(/\s+/g, ' ').trim()}`;
+      return !next || line.endTime < next.startTime
+        ? `${entry}\n[${formatLrcTime(line.endTime)}]`
+        : entry;
+    })
+    .join('\n') + '\n';
+};
+
+/**
+ * Converts milliseconds to an LRC timestamp (mm:ss.xx), the inverse of parseLrcTime.
+ *
+ * @param ms Time in milliseconds
+ * @returns Timestamp string in format mm:ss.xx
+ */
+const formatLrcTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms / 10));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(total / 6000))}:${pad(Math.floor(total / 100) % 60)}.${pad(total % 100)}`;
+};
+
+/**
+ * Converts LRC timestamp parts (mm and ss.xx) to milliseconds.
+ *
+ * @param minutes Minutes part of the timestamp
+ * @param seconds Seconds part, optionally with a fraction (ss.xx or ss:xx)
+ * @returns Time in milliseconds
+ */
+const parseLrcTime = (minutes: string, seconds: string): number => {
+  const [sec, fraction = '0'] = seconds.split(/[.:]/);
+  // "5" means 500 ms, "05" means 50 ms, "005" means 5 ms
+  const ms = parseInt(fraction.padEnd(3, '0').slice(0, 3), 10);
+  return (parseInt(minutes, 10) * 60 + parseInt(sec, 10)) * 1000 + ms;
+};
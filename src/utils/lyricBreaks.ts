@@ -0,0 +1,101 @@
+import { LyricLine, DEFAULT_BREAK_THRESHOLD_MS, insertInstrumentalBreaks } from './srtParser';
+import { readJSON, writeJSON, ensureDirectory } from './storage';
+
+/**
+ * How instrumental parts of a song are shown.
+ */
+export interface LyricBreakSettings {
+  thresholdMs: number; // Gaps between lines longer than this become an instrumental break
+}
+
+export const DEFAULT_LYRIC_BREAKS: LyricBreakSettings = { thresholdMs: DEFAULT_BREAK_THRESHOLD_MS };
+
+/**
+ * Allowed range of the break threshold. Breaks stay longer than the countdown.
+ */
+export const LYRIC_BREAK_LIMITS = {
+  thresholdMs: { min: 4000, max: 30000, step: 1000 },
+};
+
+// One countdown dot per second before singing resumes
+export const COUNTDOWN_BEATS = 3;
+
+const LYRIC_BREAKS_FILE = 'settings/lyric-breaks.json';
+
+/**
+ * Time left until the next sung line, while an instrumental part plays.
+ */
+export interface BreakCountdown {
+  nextLine: LyricLine;
+  remainingMs: number;
+  isIntro: boolean; // Before the first sung line of the song
+}
+
+/**
+ * Keeps the break threshold inside the allowed range, on whole steps.
+ */
+export const limitLyricBreaks = (settings: LyricBreakSettings): LyricBreakSettings => {
+  const { min, max, step } = LYRIC_BREAK_LIMITS.thresholdMs;
+  return { thresholdMs: Math.min(max, Math.max(min, Math.round(settings.thresholdMs / step) * step)) };
+};
+
+/**
+ * Inserts the instrumental breaks again with another threshold, without reparsing the file.
+ *
+ * @param lyrics Parsed lyric lines, with or without breaks
+ * @param settings Break settings to apply
+ * @returns Lyric lines with the breaks of the new threshold
+ */
+export const applyLyricBreaks = (lyrics: LyricLine[], settings: LyricBreakSettings): LyricLine[] => {
+  return insertInstrumentalBreaks(lyrics.filter(line => !line.isInstrumental), settings.thresholdMs);
+};
+
+/**
+ * Finds the line that is sung after the current instrumental break or intro.
+ *
+ * @param lyrics Lyric lines with breaks, timed against the playback
+ * @param currentTime Current playback time in milliseconds
+ * @returns The countdown, or null while a line is sung or between lines without a break
+ */
+export const getBreakCountdown = (lyrics: LyricLine[], currentTime: number): BreakCountdown | null => {
+  const nextIndex = lyrics.findIndex(line => !line.isInstrumental && line.startTime > currentTime);
+  if (nextIndex === -1) return null;
+
+  const nextLine = lyrics[nextIndex];
+  const remainingMs = nextLine.startTime - currentTime;
+  const isIntro = !lyrics.some((line, index) => index < nextIndex && !line.isInstrumental);
+  if (isIntro) return { nextLine, remainingMs, isIntro };
+
+  const previous = lyrics[nextIndex - 1];
+  const inBreak = previous.isInstrumental && currentTime >= previous.startTime;
+  return inBreak ? { nextLine, remainingMs, isIntro } : null;
+};
+
+/**
+ * Number of countdown dots to show, one less every second of the last COUNTDOWN_BEATS seconds.
+ *
+ * @param remainingMs Time left until the next line
+ * @returns Dots to show, 0 while the countdown has not started
+ */
+export const getCountdownDots = (remainingMs: number): number => {
+  if (remainingMs <= 0 || remainingMs > COUNTDOWN_BEATS * 1000) return 0;
+  return Math.ceil(remainingMs / 1000);
+};
+
+/**
+ * Loads the instrumental break settings.
+ *
+ * @returns Stored settings merged over the defaults
+ */
+export const loadLyricBreaks = async (): Promise<LyricBreakSettings> => {
+  const stored = await readJSON<Partial<LyricBreakSettings>>(LYRIC_BREAKS_FILE, {});
+  return limitLyricBreaks({ ...DEFAULT_LYRIC_BREAKS, ...stored });
+};
+
+/**
+ * Stores the instrumental break settings for the next songs.
+ */
+export const saveLyricBreaks = async (settings: LyricBreakSettings): Promise<void> => {
+  await ensureDirectory('settings');
+  await writeJSON(LYRIC_BREAKS_FILE, settings);
+};
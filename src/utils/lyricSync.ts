@@ -0,0 +1,139 @@
+import { LyricLine } from './srtParser';
+import { readJSON, writeJSON, ensureDirectory } from './storage';
+
+/**
+ * Correction of lyric timings that do not match the song file.
+ * A lyric time t is shown at t * stretch + offsetMs.
+ */
+export interface LyricSync {
+  offsetMs: number; // Positive shows the lyrics later
+  stretch: number; // Above 1 spreads the lyrics out, for files that drift early towards the end
+}
+
+export const DEFAULT_LYRIC_SYNC: LyricSync = { offsetMs: 0, stretch: 1 };
+
+/**
+ * Allowed ranges of the lyric sync controls.
+ */
+export const LYRIC_SYNC_LIMITS = {
+  offsetMs: { min: -10000, max: 10000, step: 50 },
+  stretch: { min: 0.9, max: 1.1, step: 0.001 },
+};
+
+const LYRIC_SYNC_FILE = 'settings/lyric-sync.json';
+
+/**
+ * Limits a value to a range.
+ */
+const clamp = (value: number, { min, max }: { min: number; max: number }): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+/**
+ * Whether the correction leaves the lyrics unchanged.
+ */
+export const isIdentitySync = (sync: LyricSync): boolean => {
+  return sync.offsetMs === 0 && Math.abs(sync.stretch - 1) < 0.0001;
+};
+
+/**
+ * Keeps a correction inside the allowed ranges, with whole milliseconds.
+ */
+export const limitLyricSync = (sync: LyricSync): LyricSync => {
+  return {
+    offsetMs: Math.round(clamp(sync.offsetMs, LYRIC_SYNC_LIMITS.offsetMs)),
+    stretch: Math.round(clamp(sync.stretch, LYRIC_SYNC_LIMITS.stretch) * 10000) / 10000,
+  };
+};
+
+/**
+ * Applies the offset and stretch to the times of lyric lines and their words.
+ *
+ * @param lyrics Lyric lines as timed in the file
+ * @param sync Correction of the song
+ * @returns Lyric lines timed against the song file
+ */
+export const applyLyricSync = (lyrics: LyricLine[], sync: LyricSync): LyricLine[] => {
+  if (isIdentitySync(sync)) return lyrics;
+
+  const shift = (time: number) => time * sync.stretch + sync.offsetMs;
+  return lyrics.map(line => ({
+    ...line,
+    startTime: shift(line.startTime),
+    endTime: shift(line.endTime),
+    words: line.words?.map(word => ({
+      ...word,
+      startTime: shift(word.startTime),
+      endTime: shift(word.endTime),
+    })),
+  }));
+};
+
+/**
+ * Finds the sung line whose corrected start is closest to a song position.
+ *
+ * @param lyrics Lyric lines as timed in the file
+ * @param sync Current correction
+ * @param songTimeMs Position in the song file
+ * @returns The line, or null when there are no sung lines
+ */
+export const findNearestLine = (lyrics: LyricLine[], sync: LyricSync, songTimeMs: number): LyricLine | null => {
+  let nearest: LyricLine | null = null;
+  let nearestDistance = Infinity;
+  lyrics.forEach(line => {
+    if (line.isInstrumental) return;
+    const distance = Math.abs(line.startTime * sync.stretch + sync.offsetMs - songTimeMs);
+    if (distance < nearestDistance) {
+      nearest = line;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+};
+
+/**
+ * Computes the offset that makes a line start at a song position ("sync to this line now").
+ * The stretch is kept.
+ *
+ * @param sync Current correction
+ * @param line The line as timed in the file
+ * @param songTimeMs Position in the song file where the line is heard
+ * @returns The corrected sync
+ */
+export const syncLineAt = (sync: LyricSync, line: LyricLine, songTimeMs: number): LyricSync => {
+  return limitLyricSync({ ...sync, offsetMs: songTimeMs - line.startTime * sync.stretch });
+};
+
+/**
+ * Formats the correction for display, e.g. "+0.30 s · 100.2%".
+ */
+export const formatLyricSync = (sync: LyricSync): string => {
+  const sign = sync.offsetMs > 0 ? '+' : sync.offsetMs < 0 ? '−' : '±';
+  return `${sign}${(Math.abs(sync.offsetMs) / 1000).toFixed(2)} s · ${(sync.stretch * 100).toFixed(1)}%`;
+};
+
+/**
+ * Loads the lyric correction stored for a song.
+ *
+ * @param songId ID of the song
+ * @returns The stored correction, or no correction
+ */
+export const loadLyricSync = async (songId: string): Promise<LyricSync> => {
+  const stored = await readJSON<Record<string, LyricSync>>(LYRIC_SYNC_FILE, {});
+  return stored[songId] ? { ...DEFAULT_LYRIC_SYNC, ...stored[songId] } : DEFAULT_LYRIC_SYNC;
+};
+
+/**
+ * Stores the lyric correction of a song. No correction removes the entry.
+ *
+ * @param songId ID of the song
+ * @param sync The correction
+ */
+export const saveLyricSync = async (songId: string, sync: LyricSync): Promise<void> => {
+  const stored = await readJSON<Record<string, LyricSync>>(LYRIC_SYNC_FILE, {});
+  if (isIdentitySync(sync)) delete stored[songId];
+  else stored[songId] = sync;
+
+  await ensureDirectory('settings');
+  await writeJSON(LYRIC_SYNC_FILE, stored);
+};
@@ -0,0 +1,246 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { LyricLine, serializeSRT } from './srtParser';
+import { serializeLRC } from './lrcParser';
+import { getWordTimings } from './wordTimings';
+import { readPartTag } from './duet';
+import { ensureDirectory } from './storage';
+
+/**
+ * What a tap stamps: the start of the next line or of the next word.
+ */
+export type TapMode = 'line' | 'word';
+
+/**
+ * Lyric lines being timed and the next line (or word) a tap stamps.
+ */
+export interface TimingDraft {
+  lines: LyricLine[];
+  cursor: number; // Next line, in word mode the next word counted across all lines
+}
+
+/**
+ * A line, or a word of a line, that a tap stamps.
+ */
+export interface TapUnit {
+  line: number;
+  word: number; // -1 in line mode
+}
+
+// Time of a line or word that has not been tapped yet
+export const UNSTAMPED = -1;
+
+export const NUDGE_STEP_MS = 100;
+
+// Length given to the last line when its end was never tapped
+const DEFAULT_LAST_LINE_MS = 3000;
+
+/**
+ * Creates the untimed lyric lines from pasted text, one line per text row.
+ * In word mode every line also gets its words, duet prefixes are not tapped.
+ *
+ * @param text Plain lyric text
+ * @param mode Whether each tap stamps a line or a word
+ * @returns Draft with all times unstamped
+ */
+export const createTimingDraft = (text: string, mode: TapMode): TimingDraft => {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(row => row.trim())
+    .filter(Boolean)
+    .map((row, index) => {
+      const line: LyricLine = { id: String(index + 1), startTime: UNSTAMPED, endTime: UNSTAMPED, text: row, isInstrumental: false };
+      if (mode === 'word') {
+        const sung = readPartTag(row).text.trim();
+        line.words = getWordTimings({ ...line, text: sung || row })
+          .map(word => ({ ...word, startTime: UNSTAMPED, endTime: UNSTAMPED }));
+      }
+      return line;
+    });
+
+  return { lines, cursor: 0 };
+};
+
+/**
+ * Lists what the taps stamp, in tapping order.
+ */
+const getTapUnits = (lines: LyricLine[], mode: TapMode): TapUnit[] => {
+  if (mode === 'line') return lines.map((_, line) => ({ line, word: -1 }));
+  return lines.flatMap((line, lineIndex) => (line.words ?? []).map((_, word) => ({ line: lineIndex, word })));
+};
+
+/**
+ * Number of taps needed to time all lines.
+ */
+export const countTaps = (lines: LyricLine[], mode: TapMode): number => {
+  return getTapUnits(lines, mode).length;
+};
+
+/**
+ * Returns what the tap with the given number stamps.
+ *
+ * @returns The line (and word), or null when all taps are done
+ */
+export const getTapUnit = (lines: LyricLine[], mode: TapMode, index: number): TapUnit | null => {
+  return getTapUnits(lines, mode)[index] ?? null;
+};
+
+/**
+ * Reads the start or end time of a line or word.
+ */
+const getTime = (lines: LyricLine[], unit: TapUnit, edge: 'startTime' | 'endTime'): number => {
+  const line = lines[unit.line];
+  return unit.word < 0 ? line[edge] : line.words![unit.word][edge];
+};
+
+/**
+ * Sets the start or end time of a line or word.
+ * A line with words takes its times from its first and last word.
+ */
+const setTime = (lines: LyricLine[], unit: TapUnit, edge: 'startTime' | 'endTime', time: number): LyricLine[] => {
+  return lines.map((line, index) => {
+    if (index !== unit.line) return line;
+    if (unit.word < 0) return { ...line, [edge]: time };
+
+    const words = line.words!.map((word, wordIndex) => wordIndex === unit.word ? { ...word, [edge]: time } : word);
+    return { ...line, words, startTime: words[0].startTime, endTime: words[words.length - 1].endTime };
+  });
+};
+
+/**
+ * Stamps the start of the next line (or word) and ends the previous one, unless its end was tapped already.
+ *
+ * @param draft The draft being timed
+ * @param mode Whether each tap stamps a line or a word
+ * @param time Song position of the tap in milliseconds
+ * @returns The updated draft, unchanged when everything is stamped
+ */
+export const stampStart = (draft: TimingDraft, mode: TapMode, time: number): TimingDraft => {
+  const units = getTapUnits(draft.lines, mode);
+  const unit = units[draft.cursor];
+  if (!unit) return draft;
+
+  let lines = draft.lines;
+  const previous = units[draft.cursor - 1];
+  if (previous && getTime(lines, previous, 'endTime') === UNSTAMPED && time >= getTime(lines, previous, 'startTime')) {
+    lines = setTime(lines, previous, 'endTime', time);
+  }
+  lines = setTime(lines, unit, 'startTime', time);
+
+  return { lines, cursor: draft.cursor + 1 };
+};
+
+/**
+ * Stamps the end of the last started line (or word), e.g. before an instrumental part.
+ *
+ * @param draft The draft being timed
+ * @param mode Whether each tap stamps a line or a word
+ * @param time Song position of the tap in milliseconds
+ * @returns The updated draft
+ */
+export const stampEnd = (draft: TimingDraft, mode: TapMode, time: number): TimingDraft => {
+  const unit = getTapUnits(draft.lines, mode)[draft.cursor - 1];
+  if (!unit || time < getTime(draft.lines, unit, 'startTime')) return draft;
+  return { ...draft, lines: setTime(draft.lines, unit, 'endTime', time) };
+};
+
+/**
+ * Moves the start or end of a timed line.
+ * The start stays before the end; with word timings the first or last word moves along.
+ *
+ * @param lines The lines being timed
+ * @param index Line to change
+ * @param edge Which end of the line moves
+ * @param deltaMs Shift in milliseconds, negative moves earlier
+ * @returns The updated lines
+ */
+export const nudgeLine = (lines: LyricLine[], index: number, edge: 'start' | 'end', deltaMs: number): LyricLine[] => {
+  return lines.map((line, lineIndex) => {
+    if (lineIndex !== index) return line;
+    const words = line.words && line.words.length > 0 ? [...line.words] : undefined;
+
+    if (edge === 'start') {
+      if (line.startTime === UNSTAMPED) return line;
+      const limit = words && words[0].endTime !== UNSTAMPED ? words[0].endTime
+        : line.endTime !== UNSTAMPED ? line.endTime : Infinity;
+      const startTime = Math.min(limit, Math.max(0, line.startTime + deltaMs));
+      if (words) words[0] = { ...words[0], startTime };
+      return { ...line, startTime, ...(words ? { words } : {}) };
+    }
+
+    if (line.endTime === UNSTAMPED) return line;
+    const last = words ? words.length - 1 : -1;
+    const limit = words ? words[last].startTime : line.startTime;
+    const endTime = Math.max(limit, line.endTime + deltaMs);
+    if (words) words[last] = { ...words[last], endTime };
+    return { ...line, endTime, ...(words ? { words } : {}) };
+  });
+};
+
+/**
+ * Turns the timed draft into finished lyric lines.
+ * Untapped lines are left out, missing ends run to the next line and lines are numbered from 1.
+ * Word timings are only kept when every word of the line was tapped.
+ *
+ * @param lines The lines being timed
+ * @returns Lyric lines sorted by start time
+ */
+export const finishTiming = (lines: LyricLine[]): LyricLine[] => {
+  const stamped = lines
+    .filter(line => line.startTime !== UNSTAMPED)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  return stamped.map((line, index) => {
+    const next = stamped[index + 1];
+    const endTime = line.endTime !== UNSTAMPED ? line.endTime
+      : next ? next.startTime : line.startTime + DEFAULT_LAST_LINE_MS;
+    const { words: draftWords, ...finished } = line;
+
+    let words = draftWords;
+    if (words && words.every(word => word.startTime !== UNSTAMPED)) {
+      words = words.map((word, wordIndex) => word.endTime !== UNSTAMPED ? word : {
+        ...word,
+        endTime: wordIndex < words!.length - 1 ? words![wordIndex + 1].startTime : endTime
+      });
+    } else {
+      words = undefined;
+    }
+
+    return { ...finished, id: String(index + 1), endTime, ...(words ? { words } : {}) };
+  });
+};
+
+/**
+ * Returns the text of lyric lines for the editor, one line per row.
+ * Duet parts are written back as prefixes where the part changes.
+ *
+ * @param lyrics Parsed lyric lines
+ * @returns Plain lyric text
+ */
+export const getLyricsText = (lyrics: LyricLine[]): string => {
+  let part = 'Both';
+  return lyrics
+    .filter(line => !line.isInstrumental)
+    .map(line => {
+      const tag = line.part && line.part !== part ? `[${line.part}] ` : '';
+      if (line.part) part = line.part;
+      return tag + line.text.replace(/\s*\n\s*/g, ' ');
+    })
+    .join('\n');
+};
+
+/**
+ * Writes timed lyrics into the document directory.
+ * Lines with word timings are written as Enhanced LRC, since SRT only keeps line times.
+ *
+ * @param title Song title, used for the file name
+ * @param lyrics Finished lyric lines
+ * @returns URI of the .lrc or .srt file
+ */
+export const writeLyricsFile = async (title: string, lyrics: LyricLine[]): Promise<string> => {
+  const folder = await ensureDirectory('lyrics');
+  const hasWords = lyrics.some(line => line.words && line.words.length > 0);
+  const uri = `${folder}${title.replace(/[^a-z0-9_-]+/gi, '_') || 'lyrics'}.${hasWords ? 'lrc' : 'srt'}`;
+  await FileSystem.writeAsStringAsync(uri, hasWords ? serializeLRC(lyrics) : serializeSRT(lyrics));
+  return uri;
+};
@@ -0,0 +1,110 @@
+import { LyricLine, LyricsDiagnostic, LyricsParseResult, parseSRTWithDiagnostics } from './srtParser';
+import { parseLRC } from './lrcParser';
+import { parseVTTWithDiagnostics } from './vttParser';
+import { parseASSWithDiagnostics } from './assParser';
+import { applyDuetParts } from './duet';
+
+/**
+ * Lyric file formats supported by the app.
+ */
+export type LyricsFormat = 'srt' | 'lrc' | 'vtt' | 'ass';
+
+/**
+ * Detects the lyric format from the file name extension, falling back to the content.
+ *
+ * @param content The raw lyric file content string
+ * @param fileName Optional file name or URI used to read the extension
+ * @returns The detected lyric format
+ */
+export const detectLyricsFormat = (content: string, fileName?: string): LyricsFormat => {
+  const extension = fileName?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'lrc' || extension === 'vtt' || extension === 'ass') return extension;
+  if (extension === 'ssa') return 'ass';
+
+  if (/^\uFEFF?\s*WEBVTT/.test(content)) return 'vtt';
+  if (/^\s*\[Script Info\]/im.test(content) || /^Dialogue\s*:/m.test(content)) return 'ass';
+  // SRT cues always contain an arrow between two timestamps
+  if (/\d{2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(content)) return 'srt';
+  if (/^\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(content)) return 'lrc';
+
+  return 'srt';
+};
+
+/**
+ * Parses a lyric file of any supported format into an array of LyricLine objects.
+ * Duet prefixes ([A]/[B]/[Both]) are moved into the part field.
+ *
+ * @param content The raw lyric file content string
+ * @param fileName Optional file name or URI used to pick the parser
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Array of parsed LyricLine objects
+ */
+export const parseLyrics = (content: string, fileName?: string, breakThresholdMs?: number): LyricLine[] => {
+  return parseLyricsWithDiagnostics(content, fileName, breakThresholdMs).lyrics;
+};
+
+/**
+ * Parses a lyric file of any supported format and reports the problems found in it,
+ * including lyrics that cannot be displayed at all.
+ *
+ * @param content The raw lyric file content string
+ * @param fileName Optional file name or URI used to pick the parser
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Parsed lyric lines with duet parts, and the diagnostics
+ */
+export const parseLyricsWithDiagnostics = (content: string, fileName?: string, breakThresholdMs?: number): LyricsParseResult => {
+  let result: LyricsParseResult;
+  switch (detectLyricsFormat(content, fileName)) {
+    case 'lrc':
+      result = { lyrics: parseLRC(content, breakThresholdMs), diagnostics: [] };
+      break;
+    case 'vtt':
+      result = parseVTTWithDiagnostics(content, breakThresholdMs);
+      break;
+    case 'ass':
+      result = parseASSWithDiagnostics(content, breakThresholdMs);
+      break;
+    case 'srt':
+    default:
+      result = parseSRTWithDiagnostics(content, breakThresholdMs);
+  }
+
+  const lyrics = applyDuetParts(result.lyrics);
+  const problems: LyricsDiagnostic[] = validateLyrics(lyrics).map(message => ({ severity: 'error', message }));
+  return { lyrics, diagnostics: [...result.diagnostics, ...problems] };
+};
+
+/**
+ * Formats a diagnostic for display, e.g. "Line 12: Cue has no index number."
+ */
+export const formatDiagnostic = (diagnostic: LyricsDiagnostic): string => {
+  return diagnostic.line ? `Line ${diagnostic.line}: ${diagnostic.message}` : diagnostic.message;
+};
+
+/**
+ * Checks parsed lyrics for problems that would break the synchronized display.
+ *
+ * @param lyrics Parsed lyric lines
+ * @returns Human readable error messages, empty if the lyrics are usable
+ */
+export const validateLyrics = (lyrics: LyricLine[]): string[] => {
+  const errors: string[] = [];
+  const sung = lyrics.filter(line => !line.isInstrumental);
+
+  if (sung.length === 0) {
+    errors.push('No timed lyric lines were found.');
+    return errors;
+  }
+
+  // Numbered among the parsed lines, so not labelled "Line" like the file lines of the diagnostics
+  sung.forEach((line, index) => {
+    const label = `Lyric ${index + 1} ("${line.text.split('\n')[0]}")`;
+    if (isNaN(line.startTime) || isNaN(line.endTime)) {
+      errors.push(`${label} has an invalid timestamp.`);
+    } else if (line.endTime < line.startTime) {
+      errors.push(`${label} ends before it starts.`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,53 @@
+import { readJSON, writeJSON, ensureDirectory } from './storage';
+import { VocalPresetId } from './vocalEffects';
+import { ExportProfileId, ExportFormatId } from './exportProfiles';
+
+/**
+ * User adjustable balance of the final mix.
+ */
+export interface MixSettings {
+  musicVolume: number; // Gain of the backing track
+  voiceVolume: number; // Gain of the recorded voice
+  voiceOffsetMs: number; // Nudge on top of the latency compensation, positive delays the voice
+  effectPreset: VocalPresetId; // Voice effects chain
+  exportProfile: ExportProfileId; // Sample rate, channels and bit depth of the rendered file
+  exportFormat: ExportFormatId; // File format of the rendered file
+}
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  musicVolume: 0.7,
+  voiceVolume: 3.0,
+  voiceOffsetMs: 0,
+  effectPreset: 'dry', // The voice stays unprocessed until a preset is chosen
+  exportProfile: 'standard',
+  exportFormat: 'wav',
+};
+
+/**
+ * Allowed ranges of the mix controls.
+ */
+export const MIX_LIMITS = {
+  musicVolume: { min: 0, max: 1.5 },
+  voiceVolume: { min: 0, max: 6 },
+  voiceOffsetMs: { min: -300, max: 300, step: 10 },
+};
+
+const MIX_SETTINGS_FILE = 'settings/mix.json';
+
+/**
+ * Loads the last-used mix settings.
+ *
+ * @returns Stored settings merged over the defaults
+ */
+export const loadMixSettings = async (): Promise<MixSettings> => {
+  const stored = await readJSON<Partial<MixSettings>>(MIX_SETTINGS_FILE, {});
+  return { ...DEFAULT_MIX_SETTINGS, ...stored };
+};
+
+/**
+ * Stores the mix settings as defaults for the next session.
+ */
+export const saveMixSettings = async (settings: MixSettings): Promise<void> => {
+  await ensureDirectory('settings');
+  await writeJSON(MIX_SETTINGS_FILE, settings);
+};
@@ -0,0 +1,190 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { MixSettings } from './mixSettings';
+import { TransposeSettings } from './transpose';
+import { documentUri, ensureDirectory, readJSON, writeJSON } from './storage';
+
+/**
+ * A recorded performance as persisted in the history manifest.
+ * File paths are relative to the document directory.
+ */
+export interface PerformanceEntry {
+  id: string;
+  title: string; // Editable name, defaults to the song title
+  songId: string;
+  songTitle: string;
+  songArtist: string;
+  createdAt: number; // Unix time in milliseconds
+  durationMillis: number;
+  mixFile: string;
+  voiceFile: string | null; // Raw recording of the newest take, earlier takes of a comp are not kept
+  settings: MixSettings;
+  transpose: TransposeSettings;
+  score: number | null; // Overall score 0-100, when the performance was scored
+}
+
+/**
+ * A performance with its files resolved to local URIs.
+ */
+export interface Performance extends PerformanceEntry {
+  mixUri: string;
+  voiceUri: string | null;
+}
+
+/**
+ * Details of a finished mix that is added to the history.
+ */
+export interface NewPerformance {
+  songId: string;
+  songTitle: string;
+  songArtist: string;
+  durationMillis: number;
+  settings: MixSettings;
+  transpose: TransposeSettings;
+  score: number | null;
+  mixSourceUri: string; // Rendered file, moved into the performance folder
+  mixExtension: string;
+  voiceUri: string | null;
+}
+
+const HISTORY_MANIFEST = 'performances/history.json';
+
+/**
+ * Returns the lower-case extension of a file URI, without the dot.
+ */
+const getExtension = (uri: string): string => {
+  const match = uri.match(/\.([a-zA-Z0-9]+)$/);
+  return match ? match[1].toLowerCase() : '';
+};
+
+/**
+ * Resolves the file paths of a manifest entry.
+ */
+const resolveEntry = (entry: PerformanceEntry): Performance => ({
+  ...entry,
+  mixUri: documentUri(entry.mixFile),
+  voiceUri: entry.voiceFile ? documentUri(entry.voiceFile) : null,
+});
+
+/**
+ * Reads the raw entries of the history manifest.
+ */
+const readEntries = (): Promise<PerformanceEntry[]> => {
+  return readJSON<PerformanceEntry[]>(HISTORY_MANIFEST, []);
+};
+
+/**
+ * Loads all stored performances, newest first.
+ * Entries whose mix file was removed are skipped.
+ *
+ * @returns Array of performances ready for playback
+ */
+export const loadPerformances = async (): Promise<Performance[]> => {
+  const entries = await readEntries();
+  const performances: Performance[] = [];
+
+  for (const entry of entries) {
+    const performance = resolveEntry(entry);
+    const info = await FileSystem.getInfoAsync(performance.mixUri);
+    if (info.exists) performances.push(performance);
+  }
+
+  return performances.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Stores a finished mix as a new performance.
+ * The mix and a copy of the newest take's raw recording are kept in their own folder,
+ * so later sessions never overwrite them.
+ *
+ * @param input The mix and the details of the session
+ * @returns The stored performance
+ */
+export const savePerformance = async (input: NewPerformance): Promise<Performance> => {
+  const id = `performance-${Date.now()}`;
+  const folder = `performances/${id}/`;
+  const mixFile = `${folder}mix.${input.mixExtension}`;
+  const voiceFile = input.voiceUri ? `${folder}voice.${getExtension(input.voiceUri) || 'm4a'}` : null;
+
+  try {
+    await ensureDirectory(folder);
+    await FileSystem.moveAsync({ from: input.mixSourceUri, to: documentUri(mixFile) });
+    if (input.voiceUri && voiceFile) {
+      await FileSystem.copyAsync({ from: input.voiceUri, to: documentUri(voiceFile) });
+    }
+
+    const entry: PerformanceEntry = {
+      id,
+      title: input.songTitle,
+      songId: input.songId,
+      songTitle: input.songTitle,
+      songArtist: input.songArtist,
+      createdAt: Date.now(),
+      durationMillis: input.durationMillis,
+      mixFile,
+      voiceFile,
+      settings: input.settings,
+      transpose: input.transpose,
+      score: input.score,
+    };
+    const entries = await readEntries();
+    await writeJSON(HISTORY_MANIFEST, [...entries, entry]);
+
+    return resolveEntry(entry);
+  } catch (e) {
+    await FileSystem.deleteAsync(documentUri(folder), { idempotent: true });
+    throw e;
+  }
+};
+
+/**
+ * Replaces the mix of a stored performance, e.g. after rendering it again with other settings.
+ *
+ * @param id Id of the performance
+ * @param mixSourceUri The new mix, moved into the performance folder
+ * @param mixExtension File extension of the new mix
+ * @param settings Settings the new mix was rendered with
+ * @param score Overall score of the new mix, null when it was not scored
+ * @returns The updated performance
+ */
+export const replacePerformanceMix = async (
+  id: string,
+  mixSourceUri: string,
+  mixExtension: string,
+  settings: MixSettings,
+  score: number | null
+): Promise<Performance> => {
+  const entries = await readEntries();
+  const entry = entries.find(e => e.id === id);
+  if (!entry) throw new Error('Performance not found');
+
+  // A new file name, so players holding the old file don't keep a stale cache
+  const mixFile = `performances/${id}/mix_${Date.now()}.${mixExtension}`;
+  await FileSystem.moveAsync({ from: mixSourceUri, to: documentUri(mixFile) });
+  await FileSystem.deleteAsync(documentUri(entry.mixFile), { idempotent: true });
+
+  const updated: PerformanceEntry = { ...entry, mixFile, settings, score };
+  await writeJSON(HISTORY_MANIFEST, entries.map(e => e.id === id ? updated : e));
+  return resolveEntry(updated);
+};
+
+/**
+ * Renames a stored performance.
+ *
+ * @param id Id of the performance
+ * @param title The new name
+ */
+export const renamePerformance = async (id: string, title: string): Promise<void> => {
+  const entries = await readEntries();
+  await writeJSON(HISTORY_MANIFEST, entries.map(e => e.id === id ? { ...e, title } : e));
+};
+
+/**
+ * Deletes a stored performance together with its files.
+ *
+ * @param id Id of the performance
+ */
+export const deletePerformance = async (id: string): Promise<void> => {
+  const entries = await readEntries();
+  await writeJSON(HISTORY_MANIFEST, entries.filter(e => e.id !== id));
+  await FileSystem.deleteAsync(documentUri(`performances/${id}/`), { idempotent: true });
+};
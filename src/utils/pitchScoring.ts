@@ -0,0 +1,143 @@
+import { LyricLine } from './srtParser';
+
+/**
+ * A note of the reference melody.
+ */
+export interface MelodyNote {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  midi: number; // MIDI note number (69 = A4), fractional values allowed
+}
+
+/**
+ * Pitch contour of the voice produced by the mixer WebView.
+ * One MIDI value per frame, 0 means unvoiced/silent.
+ * Frame i covers song time i * frameMillis.
+ */
+export interface PitchTrack {
+  frameMillis: number;
+  voice: number[];
+}
+
+/**
+ * Score of a single lyric line.
+ */
+export interface LineScore {
+  lineId: string;
+  text: string;
+  score: number | null; // 0-100, null when the line has no melody notes
+  voiced: number; // Share of the line (0-1) in which a voice was detected
+}
+
+/**
+ * Score of a whole performance.
+ */
+export interface PerformanceScore {
+  overall: number | null; // 0-100, null when there is no melody to score against
+  lines: LineScore[];
+}
+
+const PERFECT_SEMITONES = 0.5; // Deviation that still counts as a perfect hit
+const MISS_SEMITONES = 2; // Deviation that counts as a miss
+const MIN_SCORED_FRAMES = 3; // Lines with fewer reference frames are not scored
+
+/**
+ * Parses a reference melody file.
+ * Expects a JSON array of { startTime, endTime, midi } objects (milliseconds).
+ *
+ * @param content The raw melody file content string
+ * @returns Melody notes sorted by start time
+ */
+export const parseMelody = (content: string): MelodyNote[] => {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) throw new Error('Melody file must contain an array of notes');
+
+  return data
+    .filter(note => typeof note.startTime === 'number' && typeof note.endTime === 'number' && typeof note.midi === 'number')
+    .map(note => ({ startTime: note.startTime, endTime: note.endTime, midi: note.midi }))
+    .sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * Looks up the melody note sung at a frame.
+ *
+ * @returns MIDI note number, 0 when no note is sung
+ */
+const getReferencePitch = (track: PitchTrack, melody: MelodyNote[], frame: number): number => {
+  const time = frame * track.frameMillis;
+  const note = melody.find(n => time >= n.startTime && time < n.endTime);
+  return note ? note.midi : 0;
+};
+
+/**
+ * Scores a single frame by the distance between the sung and reference pitch.
+ * Octave errors are forgiven, so singers may sing in a comfortable register.
+ *
+ * @returns Frame score between 0 and 1
+ */
+const scoreFrame = (voice: number, reference: number): number => {
+  if (voice <= 0) return 0;
+
+  let diff = (voice - reference) % 12;
+  if (diff > 6) diff -= 12;
+  if (diff < -6) diff += 12;
+  const deviation = Math.abs(diff);
+
+  if (deviation <= PERFECT_SEMITONES) return 1;
+  if (deviation >= MISS_SEMITONES) return 0;
+  return (MISS_SEMITONES - deviation) / (MISS_SEMITONES - PERFECT_SEMITONES);
+};
+
+/**
+ * Compares the sung pitch against the reference melody along the lyric timeline.
+ * Instrumental breaks are ignored. Without a melody the lines are not scored,
+ * only how much of each line was sung is measured.
+ *
+ * @param track Pitch contours from the mixer
+ * @param lyrics Lyric lines of the song
+ * @param melody Optional reference melody notes
+ * @returns Per-line and overall score
+ */
+export const scorePerformance = (track: PitchTrack, lyrics: LyricLine[], melody: MelodyNote[] | null): PerformanceScore => {
+  const lines: LineScore[] = [];
+  let totalScore = 0;
+  let totalFrames = 0;
+
+  for (const line of lyrics) {
+    if (line.isInstrumental) continue;
+
+    const firstFrame = Math.max(0, Math.ceil(line.startTime / track.frameMillis));
+    const lastFrame = Math.min(track.voice.length, Math.floor(line.endTime / track.frameMillis));
+
+    let lineScore = 0;
+    let lineFrames = 0;
+    let voicedFrames = 0;
+    for (let frame = firstFrame; frame < lastFrame; frame++) {
+      if (track.voice[frame] > 0) voicedFrames++;
+      if (!melody) continue;
+      const reference = getReferencePitch(track, melody, frame);
+      if (reference <= 0) continue;
+
+      lineScore += scoreFrame(track.voice[frame], reference);
+      lineFrames++;
+    }
+
+    const scored = lineFrames >= MIN_SCORED_FRAMES;
+    lines.push({
+      lineId: line.id,
+      text: line.text,
+      score: scored ? Math.round((lineScore / lineFrames) * 100) : null,
+      voiced: lastFrame > firstFrame ? voicedFrames / (lastFrame - firstFrame) : 0,
+    });
+
+    if (scored) {
+      totalScore += lineScore;
+      totalFrames += lineFrames;
+    }
+  }
+
+  return {
+    overall: totalFrames > 0 ? Math.round((totalScore / totalFrames) * 100) : null,
+    lines,
+  };
+};
@@ -0,0 +1,35 @@
+import { Audio } from 'expo-av';
+
+/**
+ * Microphone settings of the karaoke sessions, with echo cancellation.
+ */
+export const SESSION_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+  isMeteringEnabled: true,
+  android: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
+    // @ts-ignore: audioSource is not in the type definition but required for AEC
+    audioSource: 7, // VOICE_COMMUNICATION (AEC)
+  },
+  ios: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.ios,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+  }
+};
+
+/**
+ * Microphone settings of the latency calibration: the session format without echo cancellation.
+ * Echo cancellation removes the loudspeaker signal from the microphone, and here that signal is
+ * the click track being measured, so the calibration uses VOICE_RECOGNITION (no AEC).
+ * Both sources share the same input buffers, so no correction is applied for the
+ * echo-cancelled path of the sessions.
+ */
+export const CALIBRATION_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  ...SESSION_RECORDING_OPTIONS,
+  isMeteringEnabled: false,
+  android: {
+    ...Audio.RecordingOptionsPresets.HIGH_QUALITY.android,
+    // @ts-ignore: audioSource is not in the type definition
+    audioSource: 6, // VOICE_RECOGNITION (no AEC)
+  },
+};
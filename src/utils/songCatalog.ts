@@ -0,0 +1,158 @@
+import { Audio } from 'expo-av';
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system/legacy';
+import { documentUri, readJSON, writeJSON } from './storage';
+
+/**
+ * A song that can be selected for a karaoke session.
+ */
+export interface Song {
+  id: string;
+  title: string;
+  artist: string;
+  audioUri: string; // Local URI of the backing track
+  lyricsUri: string; // Local URI of the lyric file (SRT or LRC)
+  melodyUri?: string; // Optional reference melody (JSON notes) used for scoring
+  durationMillis: number;
+  isBundled?: boolean; // Shipped inside the app bundle
+}
+
+/**
+ * A song imported from device storage, as persisted in the library manifest.
+ * File paths are relative to the document directory.
+ */
+export interface ImportedSongEntry {
+  id: string;
+  title: string;
+  artist: string;
+  audioFile: string;
+  lyricsFile: string;
+  melodyFile?: string;
+  durationMillis: number;
+}
+
+const LIBRARY_MANIFEST = 'songs/library.json';
+
+/**
+ * Definition of a song shipped in the assets folder.
+ */
+interface BundledSong {
+  id: string;
+  title: string;
+  artist: string;
+  audioModule: number;
+  lyricsModule: number;
+}
+
+const BUNDLED_SONGS: BundledSong[] = [
+  {
+    id: 'bundled-song',
+    title: 'Sample Song',
+    artist: 'KaraokeApp',
+    audioModule: require('../../assets/song.mp3'),
+    lyricsModule: require('../../assets/lyrics.srt'),
+  },
+];
+
+/**
+ * Resolves the bundled songs to local file URIs.
+ * Assets are downloaded (or copied from the bundle) on first use.
+ *
+ * @returns Array of bundled songs ready for playback
+ */
+export const loadBundledSongs = async (): Promise<Song[]> => {
+  const songs: Song[] = [];
+
+  for (const bundled of BUNDLED_SONGS) {
+    const [audioAsset, lyricsAsset] = await Asset.loadAsync([bundled.audioModule, bundled.lyricsModule]);
+    const audioUri = audioAsset.localUri || audioAsset.uri;
+    const lyricsUri = lyricsAsset.localUri || lyricsAsset.uri;
+
+    songs.push({
+      id: bundled.id,
+      title: bundled.title,
+      artist: bundled.artist,
+      audioUri,
+      lyricsUri,
+      durationMillis: await getAudioDuration(audioUri),
+      isBundled: true,
+    });
+  }
+
+  return songs;
+};
+
+/**
+ * Loads the songs imported by the user from the library manifest.
+ * Entries whose files were removed are skipped.
+ *
+ * @returns Array of imported songs ready for playback
+ */
+export const loadImportedSongs = async (): Promise<Song[]> => {
+  const entries = await readImportedSongEntries();
+  const songs: Song[] = [];
+
+  for (const entry of entries) {
+    const audioUri = documentUri(entry.audioFile);
+    const lyricsUri = documentUri(entry.lyricsFile);
+    const [audioInfo, lyricsInfo] = await Promise.all([
+      FileSystem.getInfoAsync(audioUri),
+      FileSystem.getInfoAsync(lyricsUri),
+    ]);
+    if (!audioInfo.exists || !lyricsInfo.exists) continue;
+
+    songs.push({
+      id: entry.id,
+      title: entry.title,
+      artist: entry.artist,
+      audioUri,
+      lyricsUri,
+      melodyUri: entry.melodyFile ? documentUri(entry.melodyFile) : undefined,
+      durationMillis: entry.durationMillis,
+    });
+  }
+
+  return songs;
+};
+
+/**
+ * Reads the raw entries of the library manifest.
+ */
+export const readImportedSongEntries = (): Promise<ImportedSongEntry[]> => {
+  return readJSON<ImportedSongEntry[]>(LIBRARY_MANIFEST, []);
+};
+
+/**
+ * Replaces the entries of the library manifest.
+ */
+export const writeImportedSongEntries = (entries: ImportedSongEntry[]): Promise<void> => {
+  return writeJSON(LIBRARY_MANIFEST, entries);
+};
+
+/**
+ * Loads an audio file without playing it to read its duration.
+ * Throws if the file cannot be decoded.
+ *
+ * @param uri URI of the audio file
+ * @returns Duration in milliseconds (0 if unknown)
+ */
+export const getAudioDuration = async (uri: string): Promise<number> => {
+  const { sound, status } = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+  try {
+    if (!status.isLoaded) throw new Error('Audio could not be loaded');
+    return status.durationMillis || 0;
+  } finally {
+    await sound.unloadAsync();
+  }
+};
+
+/**
+ * Formats a duration in milliseconds into M:SS.
+ */
+export const formatDuration = (millis: number): string => {
+  if (!millis || millis < 0) return '0:00';
+  const totalSeconds = Math.floor(millis / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+};
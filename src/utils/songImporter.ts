@@ -0,0 +1,148 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Song, getAudioDuration, readImportedSongEntries, writeImportedSongEntries } from './songCatalog';
+import { parseLyricsWithDiagnostics, detectLyricsFormat, formatDiagnostic } from './lyricsParser';
+import { parseLRCMetadata } from './lrcParser';
+import { parseMelody } from './pitchScoring';
+import { documentUri, ensureDirectory } from './storage';
+
+/**
+ * A file picked by the user for import.
+ */
+export interface PickedFile {
+  uri: string;
+  name: string;
+}
+
+/**
+ * Input for importing a song into the library.
+ */
+export interface ImportSongInput {
+  audio: PickedFile;
+  lyrics: PickedFile;
+  melody?: PickedFile | null; // Optional reference melody for scoring
+  title: string;
+  artist: string;
+}
+
+/**
+ * Result of an import. Either a song or a list of errors to show to the user.
+ */
+export interface ImportSongResult {
+  song: Song | null;
+  errors: string[];
+}
+
+/**
+ * Returns the lower-case extension of a file name, without the dot.
+ */
+const getExtension = (fileName: string): string => {
+  const match = fileName.match(/\.([a-zA-Z0-9]+)$/);
+  return match ? match[1].toLowerCase() : '';
+};
+
+/**
+ * Suggests title and artist for a picked lyric file.
+ * Uses the LRC [ti:]/[ar:] tags when available, otherwise the file name.
+ *
+ * @param lyrics The picked lyric file
+ * @returns Suggested title and artist (artist may be empty)
+ */
+export const suggestSongInfo = async (lyrics: PickedFile): Promise<{ title: string; artist: string }> => {
+  const fallbackTitle = lyrics.name.replace(/\.[^.]+$/, '');
+  try {
+    const content = await FileSystem.readAsStringAsync(lyrics.uri);
+    if (detectLyricsFormat(content, lyrics.name) === 'lrc') {
+      const metadata = parseLRCMetadata(content);
+      return { title: metadata.title || fallbackTitle, artist: metadata.artist || '' };
+    }
+  } catch (e) {
+    console.log('Could not read lyric metadata:', e);
+  }
+  return { title: fallbackTitle, artist: '' };
+};
+
+/**
+ * Copies a user-chosen audio file and lyric file into the document directory
+ * and registers them in the library manifest.
+ * The lyrics must parse and the audio must decode, otherwise nothing is kept.
+ *
+ * @param input The picked files and song details
+ * @returns The imported song, or the validation errors
+ */
+export const importSong = async (input: ImportSongInput): Promise<ImportSongResult> => {
+  const errors: string[] = [];
+  if (!input.title.trim()) errors.push('Please enter a title.');
+
+  // Validate the lyrics before copying anything
+  let lyricsContent = '';
+  try {
+    lyricsContent = await FileSystem.readAsStringAsync(input.lyrics.uri);
+  } catch (e: any) {
+    errors.push('Lyric file could not be read: ' + e.message);
+  }
+  if (lyricsContent) {
+    // Repaired problems (warnings) do not stop the import
+    const { diagnostics } = parseLyricsWithDiagnostics(lyricsContent, input.lyrics.name);
+    errors.push(...diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(formatDiagnostic));
+  }
+
+  let melodyContent = '';
+  if (input.melody) {
+    try {
+      melodyContent = await FileSystem.readAsStringAsync(input.melody.uri);
+      if (parseMelody(melodyContent).length === 0) errors.push('Melody file contains no notes.');
+    } catch (e: any) {
+      errors.push('Melody file could not be parsed: ' + e.message);
+    }
+  }
+  if (errors.length > 0) return { song: null, errors };
+
+  const id = `imported-${Date.now()}`;
+  const folder = `songs/${id}/`;
+  const audioFile = `${folder}audio.${getExtension(input.audio.name) || 'mp3'}`;
+  const lyricsFile = `${folder}lyrics.${detectLyricsFormat(lyricsContent, input.lyrics.name)}`;
+  const melodyFile = melodyContent ? `${folder}melody.json` : undefined;
+
+  try {
+    await ensureDirectory(folder);
+    await FileSystem.copyAsync({ from: input.audio.uri, to: documentUri(audioFile) });
+    await FileSystem.writeAsStringAsync(documentUri(lyricsFile), lyricsContent);
+    if (melodyFile) await FileSystem.writeAsStringAsync(documentUri(melodyFile), melodyContent);
+
+    let durationMillis = 0;
+    try {
+      durationMillis = await getAudioDuration(documentUri(audioFile));
+    } catch (e: any) {
+      throw new Error('Audio file could not be decoded: ' + e.message);
+    }
+
+    const entry = {
+      id,
+      title: input.title.trim(),
+      artist: input.artist.trim() || 'Unknown Artist',
+      audioFile,
+      lyricsFile,
+      melodyFile,
+      durationMillis,
+    };
+    const entries = await readImportedSongEntries();
+    await writeImportedSongEntries([...entries, entry]);
+
+    return {
+      song: {
+        id,
+        title: entry.title,
+        artist: entry.artist,
+        audioUri: documentUri(audioFile),
+        lyricsUri: documentUri(lyricsFile),
+        melodyUri: melodyFile ? documentUri(melodyFile) : undefined,
+        durationMillis,
+      },
+      errors: [],
+    };
+  } catch (e: any) {
+    console.error('Import error', e);
+    await FileSystem.deleteAsync(documentUri(folder), { idempotent: true });
+    return { song: null, errors: [e.message] };
+  }
+};
@@ -1,53 +1,233 @@
+/**
+ * Timing of a single word (or syllable) inside a lyric line.
+ */
+export interface LyricWord {
+  text: string; // Includes trailing whitespace, a trailing "\n" marks a line break
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+}
+
+/**
+ * Singer of a duet line: part A, part B or both together.
+ */
+export type DuetPart = 'A' | 'B' | 'Both';
+
 export interface LyricLine {
   id: string; // ID is string to support custom IDs like "break-1"
   startTime: number; // in milliseconds
   endTime: number; // in milliseconds
   text: string;
   isInstrumental?: boolean; // Indicates if this line represents an instrumental break
+  words?: LyricWord[]; // Optional per-word timings (e.g. from Enhanced LRC)
+  part?: DuetPart; // Duet part, from an [A]/[B]/[Both] prefix in the lyric file
 }
 
+/**
+ * A problem found while parsing a lyric file.
+ * Warnings were repaired, errors mean a cue had to be left out.
+ */
+export interface LyricsDiagnostic {
+  severity: 'warning' | 'error';
+  line?: number; // 1-based line of the file, missing for problems of the whole file
+  message: string;
+}
+
+/**
+ * Parsed lyrics together with the problems found in the file.
+ */
+export interface LyricsParseResult {
+  lyrics: LyricLine[];
+  diagnostics: LyricsDiagnostic[];
+}
+
+// Gaps between lines longer than this become instrumental breaks unless configured otherwise
+export const DEFAULT_BREAK_THRESHOLD_MS = 10000;
+
+// "00:00:31,384 --> 00:00:33,120", optionally followed by position hints (X1:... or align:...)
+const TIMING_LINE = /^\s*(\S+?)\s*-->\s*(\S+)(.*)$/;
+// Hours are optional; milliseconds may use "," or "." and have 1-3 digits
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.:](\d{1,3}))?$/;
+// <i>, <b>, <u>, <s> and <font ...> tags, and {\an8} style overrides
+const STYLE_TAG = /<\/?(?:i|b|u|s|font)\b[^>]*>|\{\\[^}]*\}/gi;
+
+/**
+ * A parsed cue with the file line it starts at, for the diagnostics.
+ */
+export interface TimedCue {
+  line: LyricLine;
+  fileLine: number;
+}
+
+/**
+ * Removes styling tags from cue text rows and joins the rows with "\n".
+ * Empty rows are dropped.
+ */
+export const cleanCueText = (rows: string[]): string => {
+  return rows
+    .map(row => row.replace(STYLE_TAG, '').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
 /**
  * Parses an SRT string into an array of LyricLine objects.
  * Handles standard SRT format and automatically inserts instrumental breaks
- * for gaps longer than the defined threshold.
+ * for gaps longer than the threshold.
  * 
  * @param srtContent The raw SRT file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
  * @returns Array of parsed LyricLine objects
  */
-export const parseSRT = (srtContent: string): LyricLine[] => {
-  const normalizedContent = srtContent.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-  const lines = normalizedContent.split('\n');
-  const lyrics: LyricLine[] = [];
+export const parseSRT = (srtContent: string, breakThresholdMs?: number): LyricLine[] => {
+  return parseSRTWithDiagnostics(srtContent, breakThresholdMs).lyrics;
+};
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+/**
+ * Parses an SRT string and reports what had to be repaired or left out.
+ * Tolerates a byte order mark, "." milliseconds, missing index lines and blank lines,
+ * styling tags, position hints after the timestamps and cues out of order.
+ * Overlapping cues are cut at the start of the next cue, cues starting together are merged.
+ *
+ * @param srtContent The raw SRT file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Parsed lyric lines with breaks, and the diagnostics sorted by line
+ */
+export const parseSRTWithDiagnostics = (srtContent: string, breakThresholdMs?: number): LyricsParseResult => {
+  const lines = srtContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const diagnostics: LyricsDiagnostic[] = [];
+  const cues: TimedCue[] = [];
+  const usedIds = new Set<string>();
 
-    // It's an ID
-    const id = line; // Keep ID as string
+  const isTiming = (index: number) => index >= 0 && index < lines.length && TIMING_LINE.test(lines[index]);
+  // A number right above a timestamp is the index of that cue
+  const isIndex = (index: number) => index >= 0 && /^\d+$/.test(lines[index].trim()) && isTiming(index + 1);
 
-    // Next line is time
-    const timeLine = lines[++i]?.trim();
-    if (!timeLine) break;
+  let i = 0;
+  while (i < lines.length) {
+    if (!lines[i].trim() || isIndex(i)) {
+      i++;
+      continue;
+    }
 
-    const [startStr, endStr] = timeLine.split(' --> ');
-    if (!startStr || !endStr) continue;
+    if (!isTiming(i)) {
+      diagnostics.push({ severity: 'warning', line: i + 1, message: 'Text without a timestamp was ignored.' });
+      // Skip the rest of the block
+      while (i < lines.length && lines[i].trim() && !isTiming(i) && !isIndex(i)) i++;
+      continue;
+    }
+
+    const timingLine = i;
+    const [, startStr, endStr] = lines[i].match(TIMING_LINE)!;
+    const rows: string[] = [];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isTiming(i) && !isIndex(i)) rows.push(lines[i++]);
+
+    const fileLine = timingLine + 1;
+    let id = isIndex(timingLine - 1) ? lines[timingLine - 1].trim() : null;
+    if (id === null) {
+      diagnostics.push({ severity: 'warning', line: fileLine, message: 'Cue has no index number.' });
+    } else if (usedIds.has(id)) {
+      diagnostics.push({ severity: 'warning', line: timingLine, message: `Index ${id} is used twice.` });
+      id = null;
+    }
+    id = id ?? `cue-${fileLine}`;
+    usedIds.add(id);
 
     const startTime = parseTime(startStr);
     const endTime = parseTime(endStr);
+    if (isNaN(startTime) || isNaN(endTime)) {
+      const invalid = isNaN(startTime) ? startStr : endStr;
+      diagnostics.push({ severity: 'error', line: fileLine, message: `Invalid timestamp "${invalid}", the cue was left out.` });
+      continue;
+    }
+    if (endTime < startTime) {
+      diagnostics.push({ severity: 'error', line: fileLine, message: 'Cue ends before it starts and was left out.' });
+      continue;
+    }
 
-    // Next lines are text until empty line
-    let text = '';
-    while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
-      text += (text ? '\n' : '') + lines[++i].trim();
+    const text = cleanCueText(rows);
+    if (!text) {
+      diagnostics.push({ severity: 'warning', line: fileLine, message: 'Cue has no text and was left out.' });
+      continue;
     }
 
-    lyrics.push({ id, startTime, endTime, text, isInstrumental: false });
+    cues.push({ line: { id, startTime, endTime, text, isInstrumental: false }, fileLine });
   }
 
-  // --- GAP FILLING LOGIC ---
+  return arrangeCues(cues, diagnostics, breakThresholdMs);
+};
+
+/**
+ * Puts parsed cues in order so only one line is sung at a time, then inserts the instrumental breaks.
+ * Cues out of order are moved to their time, cues starting together are merged
+ * and overlapping cues are cut at the start of the next cue.
+ * Shared by the subtitle parsers (SRT, WebVTT, ASS).
+ *
+ * @param cues Cues in file order
+ * @param diagnostics Problems found so far, the arranging problems are added
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Lyric lines with breaks, and all diagnostics sorted by line
+ */
+export const arrangeCues = (
+  cues: TimedCue[],
+  diagnostics: LyricsDiagnostic[],
+  breakThresholdMs = DEFAULT_BREAK_THRESHOLD_MS
+): LyricsParseResult => {
+  const problems = [...diagnostics];
+
+  cues.forEach((cue, index) => {
+    if (index > 0 && cue.line.startTime < cues[index - 1].line.startTime) {
+      problems.push({ severity: 'warning', line: cue.fileLine, message: 'Cue is out of order and was moved to its time.' });
+    }
+  });
+  const sorted = [...cues].sort((a, b) => a.line.startTime - b.line.startTime);
+
+  const lyrics: LyricLine[] = [];
+  sorted.forEach(cue => {
+    const previous = lyrics[lyrics.length - 1];
+    if (previous && previous.startTime === cue.line.startTime) {
+      // The word timings of one cue do not cover the merged text
+      problems.push({ severity: 'warning', line: cue.fileLine, message: 'Cue starts together with the previous one, they were merged.' });
+      const { words, ...merged } = previous;
+      lyrics[lyrics.length - 1] = {
+        ...merged,
+        text: `${previous.text}\n${cue.line.text}`,
+        endTime: Math.max(previous.endTime, cue.line.endTime)
+      };
+      return;
+    }
+    if (previous && previous.endTime > cue.line.startTime) {
+      problems.push({ severity: 'warning', line: cue.fileLine, message: 'Cue overlaps the previous one, which now ends here.' });
+      const endTime = cue.line.startTime;
+      lyrics[lyrics.length - 1] = {
+        ...previous,
+        endTime,
+        ...(previous.words ? {
+          words: previous.words.map(word => ({
+            ...word,
+            startTime: Math.min(word.startTime, endTime),
+            endTime: Math.min(word.endTime, endTime)
+          }))
+        } : {})
+      };
+    }
+    lyrics.push(cue.line);
+  });
+
+  problems.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { lyrics: insertInstrumentalBreaks(lyrics, breakThresholdMs), diagnostics: problems };
+};
+
+/**
+ * Inserts instrumental break lines into gaps longer than the threshold.
+ * Shared by all lyric parsers so every format gets the same break handling.
+ *
+ * @param lyrics Lyric lines sorted by start time, without breaks
+ * @param thresholdMs Shortest gap filled with a break
+ * @returns Lyric lines with break entries inserted between them
+ */
+export const insertInstrumentalBreaks = (lyrics: LyricLine[], thresholdMs = DEFAULT_BREAK_THRESHOLD_MS): LyricLine[] => {
   const lyricsWithBreaks: LyricLine[] = [];
-  const GAP_THRESHOLD = 10000; // Fill gaps longer than 10 seconds
 
   for (let i = 0; i < lyrics.length; i++) {
     lyricsWithBreaks.push(lyrics[i]);
@@ -58,7 +238,7 @@ export const parseSRT = (srtContent: string): LyricLine[] => {
       const nextStart = lyrics[i + 1].startTime;
       const gap = nextStart - currentEnd;
 
-      if (gap > GAP_THRESHOLD) {
+      if (gap > thresholdMs) {
         lyricsWithBreaks.push({
           id: `break-${i}`, // Unique ID for the break
           startTime: currentEnd,
@@ -75,17 +255,51 @@ export const parseSRT = (srtContent: string): LyricLine[] => {
 
 /**
  * Converts an SRT timestamp string (00:00:00,000) to milliseconds.
+ * Also accepts "." before the milliseconds, fewer millisecond digits and a missing hour,
+ * which covers WebVTT (00:31.384) and ASS (0:00:31.38) timestamps as well.
  * 
  * @param timeStr Timestamp string in format HH:MM:SS,mmm
- * @returns Time in milliseconds
+ * @returns Time in milliseconds, NaN if the string is not a timestamp
+ */
+export const parseTime = (timeStr: string): number => {
+  const match = timeStr.trim().match(TIMESTAMP);
+  if (!match) return NaN;
+
+  const [, h, m, s, fraction] = match;
+  const ms = fraction ? parseInt(fraction.padEnd(3, '0'), 10) : 0;
+  return ((Number(h ?? 0) * 60 + Number(m)) * 60 + Number(s)) * 1000 + ms;
+};
+
+/**
+ * Converts milliseconds to an SRT timestamp string (00:00:00,000), the inverse of parseTime.
+ *
+ * @param ms Time in milliseconds
+ * @returns Timestamp string in format HH:MM:SS,mmm
+ */
+export const formatTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor(total / 60000) % 60;
+  const s = Math.floor(total / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(total % 1000, 3)}`;
+};
+
+/**
+ * Writes lyric lines as an SRT file that parseSRT reads back to the same lines.
+ * Instrumental breaks are left out, parseSRT inserts them again from the gaps.
+ * Cues are numbered from 1 and empty rows are dropped, since they would end a cue.
+ *
+ * @param lyrics Lyric lines sorted by start time
+ * @returns The SRT file content
  */
-const parseTime = (timeStr: string): number => {
-  // Format: 00:00:31,384
-  if (!timeStr) return 0;
-  const parts = timeStr.split(',');
-  const hms = parts[0];
-  const ms = parts[1] ? parseInt(parts[1]) : 0;
-
-  const [h, m, s] = hms.split(':').map(Number);
-  return (h * 3600 + m * 60 + s) * 1000 + ms;
-};
\ No newline at end of file
+export const serializeSRT = (lyrics: LyricLine[]): string => {
+  return lyrics
+    .filter(line => !line.isInstrumental)
+    .map((line, index) => {
+      const text = line.text.split('\n').map(row => row.trim()).filter(Boolean).join('\n');
+      return `${index + 1}\n${formatTime(line.startTime)} --> ${formatTime(line.endTime)}\n${text}\n`;
+    })
+    .join('\n');
+};
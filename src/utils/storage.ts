@@ -0,0 +1,60 @@
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Resolves a path relative to the app's document directory.
+ * Only relative paths are persisted because the document directory
+ * can move between app updates on iOS.
+ *
+ * @param relativePath Path inside the document directory
+ * @returns Absolute file URI
+ */
+export const documentUri = (relativePath: string): string => {
+  return FileSystem.documentDirectory + relativePath;
+};
+
+/**
+ * Reads a JSON file from the document directory.
+ * Returns the fallback when the file is missing or cannot be parsed.
+ *
+ * @param relativePath Path inside the document directory
+ * @param fallback Value returned when nothing is stored yet
+ * @returns The parsed content
+ */
+export const readJSON = async <T>(relativePath: string, fallback: T): Promise<T> => {
+  try {
+    const uri = documentUri(relativePath);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return fallback;
+
+    const content = await FileSystem.readAsStringAsync(uri);
+    return JSON.parse(content) as T;
+  } catch (e) {
+    console.log(`Could not read ${relativePath}:`, e);
+    return fallback;
+  }
+};
+
+/**
+ * Writes a value as JSON into the document directory.
+ *
+ * @param relativePath Path inside the document directory
+ * @param data Value to serialize
+ */
+export const writeJSON = async (relativePath: string, data: unknown): Promise<void> => {
+  await FileSystem.writeAsStringAsync(documentUri(relativePath), JSON.stringify(data));
+};
+
+/**
+ * Creates a directory inside the document directory if it does not exist yet.
+ *
+ * @param relativePath Directory path inside the document directory
+ * @returns Absolute URI of the directory, ending with a slash
+ */
+export const ensureDirectory = async (relativePath: string): Promise<string> => {
+  const uri = documentUri(relativePath.endsWith('/') ? relativePath : relativePath + '/');
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(uri, { intermediates: true });
+  }
+  return uri;
+};
@@ -0,0 +1,76 @@
+import { LyricLine } from './srtParser';
+
+/**
+ * Start of a stretch of the recording on the song timeline.
+ * A session that was paused and resumed records one segment per resume.
+ */
+export interface VoiceSegment {
+  voiceMs: number; // Position in the recording
+  songMs: number; // Song position at the same moment
+}
+
+/**
+ * A full recording of the song. A session can keep several takes and combine them.
+ */
+export interface RecordedTake {
+  id: string;
+  uri: string;
+  number: number; // 1-based number shown to the user
+  segments: VoiceSegment[]; // Pauses of this take
+}
+
+/**
+ * Part of the song timeline that is sung by one take.
+ * A region lasts until the next region starts.
+ */
+export interface CompRegion {
+  startMs: number; // Song position where the take takes over
+  take: number; // Index of the take in the session
+}
+
+/**
+ * Chosen take per lyric line, by line id. Lines without a choice use the default take.
+ */
+export type CompChoices = Record<string, number>;
+
+// Length of the crossfade at each section boundary
+export const COMP_CROSSFADE_MS = 40;
+
+/**
+ * Returns the lines a take can be chosen for (instrumental breaks follow the surrounding takes).
+ */
+export const getCompLines = (lyrics: LyricLine[]): LyricLine[] => {
+  return lyrics.filter(line => !line.isInstrumental && line.text.trim() !== '');
+};
+
+/**
+ * Builds the regions of the combined vocal from the chosen take per line.
+ * A boundary lies halfway through the gap between two lines, so the crossfade
+ * falls into the pause instead of cutting a word.
+ *
+ * @param lyrics Lyric lines on the song timeline
+ * @param choices Chosen take per line
+ * @param defaultTake Take used for lines without a choice
+ * @returns Regions in song order, adjacent regions always use different takes
+ */
+export const buildCompRegions = (lyrics: LyricLine[], choices: CompChoices, defaultTake: number): CompRegion[] => {
+  const regions: CompRegion[] = [{ startMs: 0, take: defaultTake }];
+  let previous: LyricLine | null = null;
+
+  getCompLines(lyrics).forEach((line, index) => {
+    const take = choices[line.id] ?? defaultTake;
+    const current = regions[regions.length - 1];
+
+    if (index === 0) {
+      current.take = take;
+    } else if (take !== current.take && previous) {
+      const startMs = previous.endTime < line.startTime
+        ? Math.round((previous.endTime + line.startTime) / 2)
+        : line.startTime;
+      regions.push({ startMs, take });
+    }
+    previous = line;
+  });
+
+  return regions;
+};
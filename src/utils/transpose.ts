@@ -0,0 +1,73 @@
+import { LyricLine } from './srtParser';
+import { MelodyNote } from './pitchScoring';
+
+/**
+ * Key and tempo change applied to the backing track.
+ */
+export interface TransposeSettings {
+  semitones: number; // Pitch shift, negative lowers the key
+  tempo: number; // Playback speed factor, 1 = original
+}
+
+export const DEFAULT_TRANSPOSE: TransposeSettings = { semitones: 0, tempo: 1 };
+
+/**
+ * Allowed ranges of the key and tempo controls.
+ */
+export const TRANSPOSE_LIMITS = {
+  semitones: { min: -6, max: 6 },
+  tempo: { min: 0.7, max: 1.3, step: 0.05 },
+};
+
+/**
+ * Whether the settings leave the backing track untouched.
+ */
+export const isIdentityTranspose = (settings: TransposeSettings): boolean => {
+  return settings.semitones === 0 && Math.abs(settings.tempo - 1) < 0.001;
+};
+
+/**
+ * Scales lyric timings to a changed tempo.
+ * A faster tempo (> 1) moves every line and word earlier.
+ *
+ * @param lyrics Lyric lines timed against the original track
+ * @param tempo Playback speed factor
+ * @returns Lyric lines timed against the tempo-changed track
+ */
+export const scaleLyrics = (lyrics: LyricLine[], tempo: number): LyricLine[] => {
+  if (Math.abs(tempo - 1) < 0.001) return lyrics;
+
+  return lyrics.map(line => ({
+    ...line,
+    startTime: line.startTime / tempo,
+    endTime: line.endTime / tempo,
+    words: line.words?.map(word => ({
+      ...word,
+      startTime: word.startTime / tempo,
+      endTime: word.endTime / tempo,
+    })),
+  }));
+};
+
+/**
+ * Moves a reference melody to the changed key and tempo.
+ *
+ * @param melody Melody notes of the original track
+ * @param settings Key and tempo change
+ * @returns Melody notes of the transposed track
+ */
+export const transposeMelody = (melody: MelodyNote[], settings: TransposeSettings): MelodyNote[] => {
+  return melody.map(note => ({
+    startTime: note.startTime / settings.tempo,
+    endTime: note.endTime / settings.tempo,
+    midi: note.midi + settings.semitones,
+  }));
+};
+
+/**
+ * Formats the settings for display, e.g. "-2 st · 90%".
+ */
+export const formatTranspose = (settings: TransposeSettings): string => {
+  const key = settings.semitones === 0 ? 'Original key' : `${settings.semitones > 0 ? '+' : ''}${settings.semitones} st`;
+  return `${key} · ${Math.round(settings.tempo * 100)}%`;
+};
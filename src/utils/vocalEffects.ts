@@ -0,0 +1,99 @@
+/**
+ * A band of the parametric voice EQ (peaking filter).
+ */
+export interface EqBand {
+  frequency: number; // Hz
+  gainDb: number;
+  q: number;
+}
+
+/**
+ * Parameters of the voice effects chain, applied in this order:
+ * high-pass -> EQ -> compressor -> reverb.
+ */
+export interface VocalEffect {
+  highPassHz: number; // 0 disables the filter
+  eq: EqBand[];
+  compressor: {
+    thresholdDb: number;
+    ratio: number;
+    kneeDb: number;
+    attackSec: number;
+    releaseSec: number;
+    makeupDb: number;
+  } | null;
+  reverb: {
+    decaySec: number; // Time to fall by 60 dB
+    preDelaySec: number;
+    dampingHz: number; // Lowpass on the tail, lower sounds darker
+    wet: number; // 0-1 mix of the reverb signal
+  } | null;
+}
+
+export type VocalPresetId = 'dry' | 'studio' | 'hall' | 'bathroom';
+
+/**
+ * A named voice effects preset.
+ */
+export interface VocalPreset {
+  id: VocalPresetId;
+  name: string;
+  effect: VocalEffect;
+}
+
+export const VOCAL_PRESETS: VocalPreset[] = [
+  {
+    id: 'dry',
+    name: 'Dry',
+    effect: { highPassHz: 0, eq: [], compressor: null, reverb: null },
+  },
+  {
+    id: 'studio',
+    name: 'Studio',
+    effect: {
+      highPassHz: 90,
+      eq: [
+        { frequency: 250, gainDb: -2, q: 1 }, // Less mud
+        { frequency: 3000, gainDb: 3, q: 0.9 }, // Presence
+        { frequency: 10000, gainDb: 2, q: 0.7 }, // Air
+      ],
+      compressor: { thresholdDb: -22, ratio: 3, kneeDb: 6, attackSec: 0.005, releaseSec: 0.15, makeupDb: 3 },
+      reverb: { decaySec: 0.8, preDelaySec: 0.01, dampingHz: 7000, wet: 0.15 },
+    },
+  },
+  {
+    id: 'hall',
+    name: 'Hall',
+    effect: {
+      highPassHz: 80,
+      eq: [
+        { frequency: 300, gainDb: -1.5, q: 1 },
+        { frequency: 2500, gainDb: 2, q: 1 },
+      ],
+      compressor: { thresholdDb: -20, ratio: 2.5, kneeDb: 8, attackSec: 0.01, releaseSec: 0.2, makeupDb: 2 },
+      reverb: { decaySec: 2.8, preDelaySec: 0.03, dampingHz: 5000, wet: 0.35 },
+    },
+  },
+  {
+    id: 'bathroom',
+    name: 'Bathroom',
+    effect: {
+      highPassHz: 120,
+      eq: [
+        { frequency: 1500, gainDb: 2, q: 1.2 },
+      ],
+      compressor: { thresholdDb: -18, ratio: 2, kneeDb: 6, attackSec: 0.01, releaseSec: 0.1, makeupDb: 1 },
+      reverb: { decaySec: 1.2, preDelaySec: 0.002, dampingHz: 10000, wet: 0.4 },
+    },
+  },
+];
+
+/**
+ * Looks up the effect parameters of a preset, falling back to a dry voice.
+ *
+ * @param id The preset ID
+ * @returns Effect parameters to send to the mixer
+ */
+export const getVocalEffect = (id: VocalPresetId): VocalEffect => {
+  return (VOCAL_PRESETS.find(preset => preset.id === id) ?? VOCAL_PRESETS[0]).effect;
+};
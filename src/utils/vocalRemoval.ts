@@ -0,0 +1,73 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Song, readImportedSongEntries, writeImportedSongEntries } from './songCatalog';
+import { detectLyricsFormat } from './lyricsParser';
+import { documentUri, ensureDirectory } from './storage';
+
+/**
+ * Options of the vocal removal.
+ */
+export interface VocalRemovalSettings {
+  strength: number; // 0 keeps the vocals, 1 removes the centered vocal band completely
+}
+
+export const DEFAULT_VOCAL_REMOVAL: VocalRemovalSettings = { strength: 0.8 };
+
+/**
+ * Copies a file into the document directory.
+ * Bundled assets may still be served by the dev server, those are downloaded.
+ */
+const copyFile = async (from: string, relativePath: string): Promise<void> => {
+  if (from.startsWith('file://')) {
+    await FileSystem.copyAsync({ from, to: documentUri(relativePath) });
+  } else {
+    await FileSystem.downloadAsync(from, documentUri(relativePath));
+  }
+};
+
+/**
+ * Stores a song rendered without vocals as a new song of the library.
+ * It shares the lyrics and melody of the original, so it can be sung and scored the same way.
+ *
+ * @param original The song the vocals were removed from
+ * @param instrumentalUri The rendered WAV, moved into the song folder
+ * @returns The new song
+ */
+export const saveInstrumentalSong = async (original: Song, instrumentalUri: string): Promise<Song> => {
+  const id = `instrumental-${Date.now()}`;
+  const folder = `songs/${id}/`;
+  const audioFile = `${folder}audio.wav`;
+  const lyricsFile = `${folder}lyrics.${detectLyricsFormat('', original.lyricsUri)}`;
+  const melodyFile = original.melodyUri ? `${folder}melody.json` : undefined;
+
+  try {
+    await ensureDirectory(folder);
+    await FileSystem.moveAsync({ from: instrumentalUri, to: documentUri(audioFile) });
+    await copyFile(original.lyricsUri, lyricsFile);
+    if (original.melodyUri && melodyFile) await copyFile(original.melodyUri, melodyFile);
+
+    const entry = {
+      id,
+      title: `${original.title} (Instrumental)`,
+      artist: original.artist,
+      audioFile,
+      lyricsFile,
+      melodyFile,
+      durationMillis: original.durationMillis,
+    };
+    const entries = await readImportedSongEntries();
+    await writeImportedSongEntries([...entries, entry]);
+
+    return {
+      id,
+      title: entry.title,
+      artist: entry.artist,
+      audioUri: documentUri(audioFile),
+      lyricsUri: documentUri(lyricsFile),
+      melodyUri: melodyFile ? documentUri(melodyFile) : undefined,
+      durationMillis: entry.durationMillis,
+    };
+  } catch (e) {
+    await FileSystem.deleteAsync(documentUri(folder), { idempotent: true });
+    throw e;
+  }
+};
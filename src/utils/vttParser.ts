@@ -0,0 +1,153 @@
+import {
+  LyricLine,
+  LyricWord,
+  LyricsDiagnostic,
+  LyricsParseResult,
+  TimedCue,
+  arrangeCues,
+  cleanCueText,
+  parseTime
+} from './srtParser';
+
+// "00:31.384 --> 00:33.120", optionally followed by cue settings (align:start position:10%)
+const TIMING_LINE = /^\s*(\S+?)\s*-->\s*(\S+)(.*)$/;
+// Blocks that carry no cues
+const SKIPPED_BLOCK = /^(NOTE|STYLE|REGION)(\s|$)/;
+// Ruby annotations are dropped together with their text
+const RUBY_TEXT = /<rt>[\s\S]*?<\/rt>/gi;
+// <v Singer>, <c.class>, <i>, <b>, <u>, <ruby> and <lang en> tags
+const CUE_TAG = /<\/?(?:v|c|i|b|u|ruby|rt|lang)\b[^>]*>/gi;
+// Karaoke style timestamps inside the cue text, e.g. <00:00:12.500>
+const INLINE_TIMESTAMP = /<((?:\d+:)?\d{1,2}:\d{1,2}\.\d{1,3})>/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', nbsp: ' ', lrm: '', rlm: '' };
+
+/**
+ * Removes the cue tags and decodes the character entities of WebVTT cue text.
+ */
+const toPlainText = (text: string): string => {
+  return text
+    .replace(RUBY_TEXT, '')
+    .replace(CUE_TAG, '')
+    .replace(INLINE_TIMESTAMP, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (_, name: string) => ENTITIES[name]);
+};
+
+/**
+ * Turns the inline timestamps of a cue into word timings.
+ * Each timestamp starts a word that lasts until the next one; text before the first belongs to the cue start.
+ *
+ * @param rows Cue text rows
+ * @param startTime Start of the cue
+ * @param endTime End of the cue
+ * @returns Word timings, or undefined if the cue has no inline timestamps
+ */
+const parseInlineTimestamps = (rows: string[], startTime: number, endTime: number): LyricWord[] | undefined => {
+  // Odd entries of the split are the timestamps
+  const parts = rows.join('\n').split(INLINE_TIMESTAMP);
+  if (parts.length < 3) return undefined;
+
+  const words: LyricWord[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const wordStart = i === 0 ? startTime : Math.min(endTime, Math.max(startTime, parseTime(parts[i - 1])));
+    const nextStart = i + 1 < parts.length ? parseTime(parts[i + 1]) : endTime;
+    const text = toPlainText(parts[i]).replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n');
+    if (!text.trim() || isNaN(wordStart)) continue;
+
+    words.push({ text, startTime: wordStart, endTime: Math.min(endTime, Math.max(wordStart, nextStart)) });
+  }
+
+  if (words.length === 0) return undefined;
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  return words;
+};
+
+/**
+ * Parses a WebVTT string into an array of LyricLine objects.
+ *
+ * @param vttContent The raw WebVTT file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Array of parsed LyricLine objects
+ */
+export const parseVTT = (vttContent: string, breakThresholdMs?: number): LyricLine[] => {
+  return parseVTTWithDiagnostics(vttContent, breakThresholdMs).lyrics;
+};
+
+/**
+ * Parses a WebVTT string and reports what had to be repaired or left out.
+ * Cue identifiers are optional, cue settings, NOTE/STYLE/REGION blocks and cue tags are ignored.
+ * Inline timestamps become word timings. Text is cleaned up and rows are kept like in parseSRT.
+ *
+ * @param vttContent The raw WebVTT file content string
+ * @param breakThresholdMs Shortest gap filled with an instrumental break
+ * @returns Parsed lyric lines with breaks, and the diagnostics sorted by line
+ */
+export const parseVTTWithDiagnostics = (vttContent: string, breakThresholdMs?: number): LyricsParseResult => {
+  const lines = vttContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const diagnostics: LyricsDiagnostic[] = [];
+  const cues: TimedCue[] = [];
+  const usedIds = new Set<string>();
+
+  let i = 0;
+  while (i < lines.length && !lines[i].trim()) i++;
+  if (i < lines.length && lines[i].trim().startsWith('WEBVTT')) {
+    // The header block ends at the first blank line
+    while (i < lines.length && lines[i].trim()) i++;
+  } else {
+    diagnostics.push({ severity: 'warning', line: i + 1, message: 'File does not start with "WEBVTT".' });
+  }
+
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim()) block.push(lines[i++]);
+
+    if (SKIPPED_BLOCK.test(block[0]) && !TIMING_LINE.test(block[0])) continue;
+
+    // The timing line may follow a cue identifier
+    const timingIndex = TIMING_LINE.test(block[0]) ? 0 : block.length > 1 && TIMING_LINE.test(block[1]) ? 1 : -1;
+    if (timingIndex < 0) {
+      diagnostics.push({ severity: 'warning', line: blockStart + 1, message: 'Text without a timestamp was ignored.' });
+      continue;
+    }
+
+    const fileLine = blockStart + timingIndex + 1;
+    const [, startStr, endStr] = block[timingIndex].match(TIMING_LINE)!;
+    const startTime = parseTime(startStr);
+    const endTime = parseTime(endStr);
+    if (isNaN(startTime) || isNaN(endTime)) {
+      const invalid = isNaN(startTime) ? startStr : endStr;
+      diagnostics.push({ severity: 'error', line: fileLine, message: `Invalid timestamp "${invalid}", the cue was left out.` });
+      continue;
+    }
+    if (endTime < startTime) {
+      diagnostics.push({ severity: 'error', line: fileLine, message: 'Cue ends before it starts and was left out.' });
+      continue;
+    }
+
+    const rows = block.slice(timingIndex + 1);
+    const text = cleanCueText(rows.map(toPlainText));
+    if (!text) {
+      diagnostics.push({ severity: 'warning', line: fileLine, message: 'Cue has no text and was left out.' });
+      continue;
+    }
+
+    let id = timingIndex === 1 ? block[0].trim() : `cue-${fileLine}`;
+    if (usedIds.has(id)) {
+      diagnostics.push({ severity: 'warning', line: blockStart + 1, message: `Cue identifier "${id}" is used twice.` });
+      id = `cue-${fileLine}`;
+    }
+    usedIds.add(id);
+
+    const words = parseInlineTimestamps(rows, startTime, endTime);
+    cues.push({ line: { id, startTime, endTime, text, isInstrumental: false, ...(words ? { words } : {}) }, fileLine });
+  }
+
+  return arrangeCues(cues, diagnostics, breakThresholdMs);
+};
@@ -0,0 +1,49 @@
+import { LyricLine, LyricWord } from './srtParser';
+
+/**
+ * Returns the per-word timings of a lyric line.
+ * Uses the timings from the lyric file when present, otherwise
+ * spreads the words evenly across the line's start/end window.
+ *
+ * @param line The lyric line
+ * @returns Word timings covering the whole line
+ */
+export const getWordTimings = (line: LyricLine): LyricWord[] => {
+  if (line.words && line.words.length > 0) return line.words;
+
+  // Keep the line breaks of multi-line cues as "\n" markers on the last word of each row
+  const tokens: string[] = [];
+  const rows = line.text.split('\n');
+  rows.forEach((row, rowIndex) => {
+    const rowWords = row.split(/\s+/).filter(Boolean);
+    rowWords.forEach((word, wordIndex) => {
+      const isRowEnd = wordIndex === rowWords.length - 1;
+      if (!isRowEnd) tokens.push(word + ' ');
+      else tokens.push(rowIndex < rows.length - 1 ? word + '\n' : word);
+    });
+  });
+
+  if (tokens.length === 0) return [];
+
+  const duration = Math.max(0, line.endTime - line.startTime);
+  const step = duration / tokens.length;
+
+  return tokens.map((text, index) => ({
+    text,
+    startTime: line.startTime + index * step,
+    endTime: line.startTime + (index + 1) * step,
+  }));
+};
+
+/**
+ * Calculates how much of a word has been sung at the given time.
+ *
+ * @param word The word timing
+ * @param currentTime Current playback time in milliseconds
+ * @returns Fill ratio between 0 and 1
+ */
+export const getWordProgress = (word: LyricWord, currentTime: number): number => {
+  if (currentTime <= word.startTime) return 0;
+  if (currentTime >= word.endTime) return 1;
+  return (currentTime - word.startTime) / (word.endTime - word.startTime);
+};